@@ -25,11 +25,13 @@ function createClient(options = {}) {
     /^https?:\/\//,
     ""
   );
-  const wsUrl = `wss://${workerUrl}/cdp?secret=${encodeURIComponent(CDP_SECRET)}`;
+  const wsUrl = `wss://${workerUrl}/cdp`;
   const timeout = options.timeout || 60000;
 
   return new Promise((resolve, reject) => {
-    const ws = new WebSocket(wsUrl);
+    const ws = new WebSocket(wsUrl, {
+      headers: { Authorization: `Bearer ${CDP_SECRET}` }
+    });
     let messageId = 1;
     const pending = new Map();
     let targetId = null;
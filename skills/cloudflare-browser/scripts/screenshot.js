@@ -15,7 +15,7 @@ if (!CDP_SECRET) {
 }
 
 const WORKER_URL = process.env.WORKER_URL.replace(/^https?:\/\//, "");
-const WS_URL = `wss://${WORKER_URL}/cdp?secret=${encodeURIComponent(CDP_SECRET)}`;
+const WS_URL = `wss://${WORKER_URL}/cdp`;
 
 const url = process.argv[2];
 const output = process.argv[3] || "screenshot.png";
@@ -31,7 +31,9 @@ const pending = new Map();
 async function main() {
   console.log(`Capturing screenshot of ${url}`);
 
-  const ws = new WebSocket(WS_URL);
+  const ws = new WebSocket(WS_URL, {
+    headers: { Authorization: `Bearer ${CDP_SECRET}` }
+  });
   let targetResolve;
   const targetReady = new Promise((r) => {
     targetResolve = r;
@@ -19,7 +19,7 @@ if (!CDP_SECRET) {
 }
 
 const WORKER_URL = process.env.WORKER_URL.replace(/^https?:\/\//, "");
-const WS_URL = `wss://${WORKER_URL}/cdp?secret=${encodeURIComponent(CDP_SECRET)}`;
+const WS_URL = `wss://${WORKER_URL}/cdp`;
 
 // Parse args
 const args = process.argv.slice(2);
@@ -49,7 +49,9 @@ async function main() {
   console.log(`Creating video from ${urls.length} URL(s)`);
   console.log(`Output: ${output}, FPS: ${fps}, Scroll: ${doScroll}\n`);
 
-  const ws = new WebSocket(WS_URL);
+  const ws = new WebSocket(WS_URL, {
+    headers: { Authorization: `Bearer ${CDP_SECRET}` }
+  });
   let targetResolve;
   const targetReady = new Promise((r) => {
     targetResolve = r;
@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import {
+  backendNodeIdForRef,
+  formatAXSnapshot,
+  refForBackendNodeId,
+  type AXNode
+} from "../worker/cdp/accessibility";
+
+const node = (
+  nodeId: string,
+  role: string,
+  name: string,
+  extra: Partial<AXNode> = {}
+): AXNode => ({
+  nodeId,
+  ignored: false,
+  role: { type: "role", value: role },
+  name: { type: "computedString", value: name },
+  ...extra
+});
+
+describe("formatAXSnapshot", () => {
+  it("renders roles, names, states, refs and values as an outline", () => {
+    const snapshot = formatAXSnapshot([
+      node("1", "RootWebArea", "Example", { childIds: ["2", "3", "5"] }),
+      node("2", "heading", "Example Domain", {
+        parentId: "1",
+        backendDOMNodeId: 7,
+        properties: [{ name: "level", value: { type: "integer", value: 1 } }]
+      }),
+      node("3", "link", "More information", {
+        parentId: "1",
+        backendDOMNodeId: 12,
+        childIds: ["4"]
+      }),
+      node("4", "StaticText", "More information", { parentId: "3" }),
+      node("5", "textbox", "Search", {
+        parentId: "1",
+        backendDOMNodeId: 15,
+        value: { type: "string", value: "cats" },
+        properties: [
+          { name: "focused", value: { type: "boolean", value: true } },
+          { name: "disabled", value: { type: "boolean", value: false } }
+        ]
+      })
+    ]);
+
+    expect(snapshot).toBe(
+      [
+        '- heading "Example Domain" [level=1] [ref=e7]',
+        '- link "More information" [ref=e12]',
+        '- textbox "Search" [focused] [ref=e15]: cats'
+      ].join("\n")
+    );
+  });
+
+  it("flattens ignored and unnamed structural nodes into their parents", () => {
+    const snapshot = formatAXSnapshot([
+      node("1", "RootWebArea", "", { childIds: ["2"] }),
+      node("2", "generic", "", { parentId: "1", childIds: ["3"] }),
+      node("3", "list", "", { parentId: "2", childIds: ["4"] }),
+      {
+        nodeId: "4",
+        ignored: true,
+        parentId: "3",
+        childIds: ["5"]
+      },
+      node("5", "listitem", "", { parentId: "4", childIds: ["6"] }),
+      node("6", "StaticText", "First", { parentId: "5" })
+    ]);
+
+    expect(snapshot).toBe(
+      ["- list", "  - listitem", "    - text: First"].join("\n")
+    );
+  });
+
+  it("shows checked, expanded and mixed states", () => {
+    const snapshot = formatAXSnapshot([
+      node("1", "RootWebArea", "", { childIds: ["2", "3", "4"] }),
+      node("2", "checkbox", "Agree", {
+        parentId: "1",
+        properties: [
+          { name: "checked", value: { type: "tristate", value: "true" } }
+        ]
+      }),
+      node("3", "checkbox", "All", {
+        parentId: "1",
+        properties: [
+          { name: "checked", value: { type: "tristate", value: "mixed" } }
+        ]
+      }),
+      node("4", "button", "Menu", {
+        parentId: "1",
+        properties: [
+          { name: "expanded", value: { type: "boolean", value: false } }
+        ]
+      })
+    ]);
+
+    expect(snapshot).toBe(
+      [
+        '- checkbox "Agree" [checked]',
+        '- checkbox "All" [checked=mixed]',
+        '- button "Menu" [collapsed]'
+      ].join("\n")
+    );
+  });
+
+  it("cuts long names short", () => {
+    const snapshot = formatAXSnapshot([
+      node("1", "RootWebArea", "", { childIds: ["2"] }),
+      node("2", "paragraph", "x".repeat(150), { parentId: "1" })
+    ]);
+    expect(snapshot).toBe(`- paragraph "${"x".repeat(100)}…"`);
+  });
+
+  it("returns nothing for an empty tree", () => {
+    expect(formatAXSnapshot([])).toBe("");
+  });
+});
+
+describe("snapshot refs", () => {
+  it("round-trips backend node ids", () => {
+    expect(refForBackendNodeId(42)).toBe("e42");
+    expect(backendNodeIdForRef(" e42 ")).toBe(42);
+  });
+
+  it("rejects refs it didn't produce", () => {
+    expect(() => backendNodeIdForRef("button")).toThrow(
+      "Invalid element ref: button"
+    );
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  isMethodAllowed,
+  isOriginAllowed,
+  isSessionAllowed,
+  mintCDPTicket,
+  revokeCDPTicket,
+  verifyCDPTicket,
+  type CDPTicketClaims
+} from "../worker/auth/cdp-tickets";
+import type { AgentEnv } from "../worker/types";
+
+/** An environment whose R2 bucket keeps ticket records in memory */
+function fakeEnv(secret = "test-secret"): AgentEnv {
+  const objects = new Map<string, string>();
+  const bucket = {
+    put: async (key: string, body: string) => {
+      objects.set(key, body);
+    },
+    head: async (key: string) => (objects.has(key) ? { key } : null),
+    delete: async (key: string) => {
+      objects.delete(key);
+    }
+  };
+  return { CDP_SECRET: secret, MOLTBOT_BUCKET: bucket } as unknown as AgentEnv;
+}
+
+const claims = (extra: Partial<CDPTicketClaims> = {}): CDPTicketClaims => ({
+  jti: "t1",
+  iat: 0,
+  exp: 1,
+  ...extra
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("verifyCDPTicket", () => {
+  it("accepts a ticket it minted and returns its claims", async () => {
+    const env = fakeEnv();
+    const { ticket, claims } = await mintCDPTicket(env, {
+      methods: ["Page.*"],
+      origins: ["https://example.com"],
+      session: "browser-1"
+    });
+
+    expect(await verifyCDPTicket(env, ticket)).toEqual(claims);
+    expect(claims.methods).toEqual(["Page.*"]);
+    expect(claims.origins).toEqual(["https://example.com"]);
+    expect(claims.session).toBe("browser-1");
+  });
+
+  it("rejects malformed tickets", async () => {
+    const env = fakeEnv();
+    await expect(verifyCDPTicket(env, "no-signature")).rejects.toThrow(
+      "Malformed ticket"
+    );
+    await expect(verifyCDPTicket(env, "a.b.c")).rejects.toThrow(
+      "Malformed ticket"
+    );
+  });
+
+  it("rejects tickets with altered claims", async () => {
+    const env = fakeEnv();
+    const { ticket, claims } = await mintCDPTicket(env, {
+      methods: ["Page.navigate"]
+    });
+    const payload = Buffer.from(
+      JSON.stringify({ ...claims, methods: undefined })
+    ).toString("base64url");
+    const forged = `${payload}.${ticket.split(".")[1]}`;
+
+    await expect(verifyCDPTicket(env, forged)).rejects.toThrow(
+      "Invalid ticket signature"
+    );
+  });
+
+  it("rejects tickets signed with another secret", async () => {
+    const { ticket } = await mintCDPTicket(fakeEnv("other-secret"));
+    await expect(verifyCDPTicket(fakeEnv(), ticket)).rejects.toThrow(
+      "Invalid ticket signature"
+    );
+  });
+
+  it("rejects expired tickets", async () => {
+    vi.useFakeTimers();
+    const env = fakeEnv();
+    const { ticket } = await mintCDPTicket(env, { ttlSeconds: 60 });
+
+    vi.advanceTimersByTime(59_000);
+    await expect(verifyCDPTicket(env, ticket)).resolves.toBeDefined();
+    vi.advanceTimersByTime(1_000);
+    await expect(verifyCDPTicket(env, ticket)).rejects.toThrow(
+      "Ticket expired"
+    );
+  });
+
+  it("caps the lifetime of a ticket", async () => {
+    const { claims } = await mintCDPTicket(fakeEnv(), {
+      ttlSeconds: 365 * 86_400
+    });
+    expect(claims.exp - claims.iat).toBe(86_400);
+  });
+
+  it("rejects revoked tickets", async () => {
+    const env = fakeEnv();
+    const { ticket, claims } = await mintCDPTicket(env);
+
+    expect(await revokeCDPTicket(env, claims.jti)).toBe(true);
+    await expect(verifyCDPTicket(env, ticket)).rejects.toThrow(
+      "Ticket revoked"
+    );
+    expect(await revokeCDPTicket(env, claims.jti)).toBe(false);
+  });
+});
+
+describe("isMethodAllowed", () => {
+  it("allows every method without a method claim", () => {
+    expect(isMethodAllowed(claims(), "Runtime.evaluate")).toBe(true);
+  });
+
+  it("matches exact methods and domain wildcards", () => {
+    const limited = claims({ methods: ["Page.*", "Runtime.evaluate"] });
+    expect(isMethodAllowed(limited, "Page.navigate")).toBe(true);
+    expect(isMethodAllowed(limited, "Runtime.evaluate")).toBe(true);
+    expect(isMethodAllowed(limited, "Runtime.callFunctionOn")).toBe(false);
+    expect(isMethodAllowed(limited, "PageX.navigate")).toBe(false);
+  });
+});
+
+describe("isOriginAllowed", () => {
+  it("allows any origin without an origin claim", () => {
+    expect(isOriginAllowed(claims(), undefined)).toBe(true);
+  });
+
+  it("requires one of the listed origins", () => {
+    const limited = claims({ origins: ["https://example.com"] });
+    expect(isOriginAllowed(limited, "https://example.com")).toBe(true);
+    expect(isOriginAllowed(limited, "https://evil.example")).toBe(false);
+    expect(isOriginAllowed(limited, undefined)).toBe(false);
+  });
+});
+
+describe("isSessionAllowed", () => {
+  it("limits a ticket to the session it names", () => {
+    expect(isSessionAllowed(claims(), "browser-1")).toBe(true);
+    const limited = claims({ session: "browser-1" });
+    expect(isSessionAllowed(limited, "browser-1")).toBe(true);
+    expect(isSessionAllowed(limited, "browser-2")).toBe(false);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { resolveKey, withKnownKey } from "../worker/cdp/keys";
+
+describe("resolveKey", () => {
+  it("tries key, then code, then the virtual key code", () => {
+    expect(
+      resolveKey({
+        key: "Enter",
+        code: "NumpadEnter",
+        windowsVirtualKeyCode: 13
+      })
+    ).toEqual(["Enter", "NumpadEnter", "Enter"]);
+  });
+
+  it("maps named virtual key codes", () => {
+    expect(resolveKey({ windowsVirtualKeyCode: 8 })).toEqual(["Backspace"]);
+    expect(resolveKey({ windowsVirtualKeyCode: 37 })).toEqual(["ArrowLeft"]);
+    expect(resolveKey({ windowsVirtualKeyCode: 32 })).toEqual([" "]);
+  });
+
+  it("derives letters, digits and function keys from their codes", () => {
+    expect(resolveKey({ windowsVirtualKeyCode: 65 })).toEqual(["a"]);
+    expect(resolveKey({ windowsVirtualKeyCode: 55 })).toEqual(["7"]);
+    expect(resolveKey({ windowsVirtualKeyCode: 112 })).toEqual(["F1"]);
+    expect(resolveKey({ windowsVirtualKeyCode: 123 })).toEqual(["F12"]);
+  });
+
+  it("ignores virtual key codes it can't name", () => {
+    expect(resolveKey({ windowsVirtualKeyCode: 255 })).toEqual([]);
+    expect(resolveKey({})).toEqual([]);
+  });
+});
+
+describe("withKnownKey", () => {
+  const layout = new Set(["Enter", "a"]);
+  const press = (pressed: string[]) => async (key: string) => {
+    if (!layout.has(key)) throw new Error(`Unknown key: "${key}"`);
+    pressed.push(key);
+  };
+
+  it("uses the first candidate in the key layout", async () => {
+    const pressed: string[] = [];
+    expect(await withKnownKey(["Numpad5" as never, "a"], press(pressed))).toBe(
+      true
+    );
+    expect(pressed).toEqual(["a"]);
+  });
+
+  it("reports when no candidate is known", async () => {
+    const pressed: string[] = [];
+    expect(await withKnownKey(["Numpad5" as never], press(pressed))).toBe(
+      false
+    );
+    expect(pressed).toEqual([]);
+  });
+
+  it("passes on other errors", async () => {
+    await expect(
+      withKnownKey(["Enter"], async () => {
+        throw new Error("Target closed");
+      })
+    ).rejects.toThrow("Target closed");
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { paginateMarkdown } from "../worker/cdp/markdown";
+
+describe("paginateMarkdown", () => {
+  it("returns a short document whole", () => {
+    const chunk = paginateMarkdown("# Title\n\nBody", 0, 100);
+    expect(chunk).toEqual({
+      content: "# Title\n\nBody",
+      start: 0,
+      nextCursor: undefined,
+      total: 13
+    });
+  });
+
+  it("ends a chunk on a paragraph break in its second half", () => {
+    const markdown = `${"a".repeat(60)}\n\n${"b".repeat(60)}`;
+    const chunk = paginateMarkdown(markdown, 0, 100);
+    expect(chunk.content).toBe(`${"a".repeat(60)}\n\n`);
+    expect(chunk.nextCursor).toBe(62);
+    expect(chunk.total).toBe(122);
+  });
+
+  it("falls back to a line break when there is no paragraph break", () => {
+    const markdown = `${"a".repeat(70)}\n${"b".repeat(70)}`;
+    const chunk = paginateMarkdown(markdown, 0, 100);
+    expect(chunk.content).toBe(`${"a".repeat(70)}\n`);
+    expect(chunk.nextCursor).toBe(71);
+  });
+
+  it("ignores breaks in the first half of the chunk", () => {
+    const markdown = `${"a".repeat(10)}\n\n${"b".repeat(200)}`;
+    const chunk = paginateMarkdown(markdown, 0, 100);
+    expect(chunk.content).toHaveLength(100);
+    expect(chunk.nextCursor).toBe(100);
+  });
+
+  it("continues from the cursor until the document ends", () => {
+    const markdown = `${"a".repeat(60)}\n\n${"b".repeat(60)}`;
+    const first = paginateMarkdown(markdown, 0, 100);
+    const second = paginateMarkdown(markdown, first.nextCursor!, 100);
+    expect(second.start).toBe(62);
+    expect(second.content).toBe("b".repeat(60));
+    expect(second.nextCursor).toBeUndefined();
+    expect(first.content + second.content).toBe(markdown);
+  });
+
+  it("clamps cursors outside the document", () => {
+    expect(paginateMarkdown("abc", -5, 10).start).toBe(0);
+    const past = paginateMarkdown("abc", 50, 10);
+    expect(past.start).toBe(3);
+    expect(past.content).toBe("");
+    expect(past.nextCursor).toBeUndefined();
+  });
+});
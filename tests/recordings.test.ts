@@ -0,0 +1,255 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  CDPRecorder,
+  hasOmittedValues,
+  type CDPRecorderOptions,
+  type CDPRecording
+} from "../worker/cdp/recordings";
+
+/** An R2 bucket that keeps the last body written to each key */
+function fakeBucket() {
+  const objects = new Map<string, string>();
+  const bucket = {
+    put: vi.fn(async (key: string, body: string) => {
+      objects.set(key, body);
+    })
+  };
+  const recording = (id: string): CDPRecording =>
+    JSON.parse(objects.get(`cdp/recordings/${id}.json`) ?? "null");
+  return { bucket: bucket as unknown as R2Bucket, put: bucket.put, recording };
+}
+
+/** Record a request and its response, then return them as saved */
+async function roundTrip(
+  method: string,
+  params: Record<string, unknown>,
+  result: Record<string, unknown> = {},
+  options: CDPRecorderOptions = {}
+) {
+  const { bucket, recording } = fakeBucket();
+  const recorder = new CDPRecorder(bucket, "browser-1", "target-1", options);
+  recorder.record("request", { id: 1, method, params });
+  recorder.record("response", { id: 1, result });
+  await recorder.save();
+  const [request, response] = recording(recorder.id).messages;
+  return { request: request.message!, response: response.message! };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("CDPRecorder", () => {
+  it("saves messages with their session and target", async () => {
+    const { bucket, recording } = fakeBucket();
+    const recorder = new CDPRecorder(bucket, "browser-1", "target-1");
+    recorder.record("request", { id: 1, method: "Page.navigate" });
+    recorder.record("event", { method: "Page.loadEventFired", params: {} });
+    await recorder.save();
+
+    const saved = recording(recorder.id);
+    expect(saved.browserSessionId).toBe("browser-1");
+    expect(saved.initialTargetId).toBe("target-1");
+    expect(saved.endedAt).toBeDefined();
+    expect(saved.messages.map((m) => m.type)).toEqual(["request", "event"]);
+  });
+
+  it("omits oversized strings at any depth", async () => {
+    const data = "x".repeat(20_000);
+    const { response } = await roundTrip(
+      "Page.captureScreenshot",
+      {},
+      { data, nested: [{ data }], short: "kept" }
+    );
+    expect(response.result).toEqual({
+      data: "[omitted 20000 characters]",
+      nested: [{ data: "[omitted 20000 characters]" }],
+      short: "kept"
+    });
+  });
+
+  it("redacts cookies it is asked to set", async () => {
+    const { request } = await roundTrip("Network.setCookies", {
+      cookies: [{ name: "sid", value: "secret", domain: "example.com" }]
+    });
+    expect(request.params).toEqual({
+      cookies: [{ name: "sid", value: "[redacted]", domain: "example.com" }]
+    });
+  });
+
+  it("redacts cookies it returns", async () => {
+    const { response } = await roundTrip(
+      "Network.getCookies",
+      {},
+      { cookies: [{ name: "sid", value: "secret" }] }
+    );
+    expect(response.result).toEqual({
+      cookies: [{ name: "sid", value: "[redacted]" }]
+    });
+  });
+
+  it("redacts credentials and extra headers", async () => {
+    const auth = await roundTrip("Fetch.continueWithAuth", {
+      requestId: "r1",
+      authChallengeResponse: {
+        response: "ProvideCredentials",
+        username: "me",
+        password: "hunter2"
+      }
+    });
+    expect(auth.request.params).toEqual({
+      requestId: "r1",
+      authChallengeResponse: {
+        response: "ProvideCredentials",
+        username: "[redacted]",
+        password: "[redacted]"
+      }
+    });
+
+    const headers = await roundTrip("Network.setExtraHTTPHeaders", {
+      headers: { Authorization: "Bearer token" }
+    });
+    expect(headers.request.params).toEqual({
+      headers: { Authorization: "[redacted]" }
+    });
+  });
+
+  it("keeps scripts and their results by default", async () => {
+    const { request, response } = await roundTrip(
+      "Runtime.evaluate",
+      { expression: "document.title", returnByValue: true },
+      { result: { type: "string", value: "Example" } }
+    );
+    expect(request.params).toEqual({
+      expression: "document.title",
+      returnByValue: true
+    });
+    expect(response.result).toEqual({
+      result: { type: "string", value: "Example" }
+    });
+  });
+
+  it("redacts scripts and their results when asked to", async () => {
+    const { request, response } = await roundTrip(
+      "Runtime.evaluate",
+      { expression: "localStorage.token", returnByValue: true },
+      { result: { type: "string", value: "secret-token" } },
+      { redactScripts: true }
+    );
+    expect(request.params).toEqual({
+      expression: "[redacted]",
+      returnByValue: true
+    });
+    expect(response.result).toEqual({
+      result: { type: "string", value: "[redacted]" }
+    });
+  });
+
+  it("redacts credential headers and cookies in network events", async () => {
+    const { bucket, recording } = fakeBucket();
+    const recorder = new CDPRecorder(bucket, "browser-1", "target-1");
+    recorder.record("event", {
+      method: "Network.requestWillBeSent",
+      params: {
+        requestId: "r1",
+        request: {
+          url: "https://example.com/",
+          headers: { Cookie: "sid=secret", Accept: "text/html" },
+          postData: "user=me&password=hunter2"
+        }
+      }
+    });
+    recorder.record("event", {
+      method: "Network.requestWillBeSentExtraInfo",
+      params: {
+        requestId: "r1",
+        headers: { authorization: "Bearer token" },
+        associatedCookies: [
+          { blockedReasons: [], cookie: { name: "sid", value: "secret" } }
+        ]
+      }
+    });
+    recorder.record("event", {
+      method: "Network.responseReceivedExtraInfo",
+      params: {
+        requestId: "r1",
+        headers: { "set-cookie": "sid=new-secret" },
+        headersText: "HTTP/1.1 200 OK\r\nSet-Cookie: sid=new-secret\r\n"
+      }
+    });
+    recorder.record("event", {
+      method: "Fetch.requestPaused",
+      params: {
+        requestId: "i1",
+        request: { headers: { Authorization: "Basic abc" } },
+        responseHeaders: [
+          { name: "Set-Cookie", value: "sid=secret" },
+          { name: "Content-Type", value: "text/html" }
+        ]
+      }
+    });
+    await recorder.save();
+
+    const [sent, sentExtra, received, paused] = recording(
+      recorder.id
+    ).messages.map((m) => m.message!.params);
+    expect(sent).toEqual({
+      requestId: "r1",
+      request: {
+        url: "https://example.com/",
+        headers: { Cookie: "[redacted]", Accept: "text/html" },
+        postData: "[redacted]"
+      }
+    });
+    expect(sentExtra).toEqual({
+      requestId: "r1",
+      headers: { authorization: "[redacted]" },
+      associatedCookies: [
+        { blockedReasons: [], cookie: { name: "sid", value: "[redacted]" } }
+      ]
+    });
+    expect(received).toEqual({
+      requestId: "r1",
+      headers: { "set-cookie": "[redacted]" },
+      headersText: "HTTP/1.1 200 OK\r\nSet-Cookie: [redacted]\r\n"
+    });
+    expect(paused).toEqual({
+      requestId: "i1",
+      request: { headers: { Authorization: "[redacted]" } },
+      responseHeaders: [
+        { name: "Set-Cookie", value: "[redacted]" },
+        { name: "Content-Type", value: "text/html" }
+      ]
+    });
+  });
+
+  it("writes the recording while it is in progress", async () => {
+    vi.useFakeTimers();
+    const { bucket, put, recording } = fakeBucket();
+    const recorder = new CDPRecorder(bucket, "browser-1", "target-1");
+    recorder.record("request", { id: 1, method: "Page.enable" });
+    expect(put).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(put).toHaveBeenCalledTimes(1);
+    expect(recording(recorder.id).messages).toHaveLength(1);
+    expect(recording(recorder.id).endedAt).toBeUndefined();
+
+    recorder.record("request", { id: 2, method: "Page.navigate" });
+    await recorder.save();
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(put).toHaveBeenCalledTimes(2);
+    expect(recording(recorder.id).messages).toHaveLength(2);
+    expect(recording(recorder.id).endedAt).toBeDefined();
+  });
+});
+
+describe("hasOmittedValues", () => {
+  it("finds redacted and oversized values at any depth", () => {
+    expect(hasOmittedValues({ expression: "[redacted]" })).toBe(true);
+    expect(
+      hasOmittedValues({ args: [{ value: "[omitted 20000 characters]" }] })
+    ).toBe(true);
+    expect(hasOmittedValues({ url: "https://example.com", n: 1 })).toBe(false);
+  });
+});
@@ -0,0 +1,38 @@
+import { chromium, type Browser } from "playwright-core";
+import { afterAll, describe, expect, it } from "vitest";
+
+// The deployed worker to connect to and its CDP secret, as for the
+// cloudflare-browser skill scripts
+const { WORKER_URL, CDP_SECRET } = process.env;
+
+describe.skipIf(!WORKER_URL || !CDP_SECRET)("Playwright connectOverCDP", () => {
+  let browser: Browser | undefined;
+
+  afterAll(async () => {
+    await browser?.close();
+  });
+
+  it("connects through /json/version and drives a page", async () => {
+    const origin = WORKER_URL!.replace(/^(?!https?:\/\/)/, "https://");
+    browser = await chromium.connectOverCDP(`${origin}/cdp`, {
+      headers: { Authorization: `Bearer ${CDP_SECRET}` }
+    });
+
+    const context = browser.contexts()[0];
+    const page = context.pages()[0] ?? (await context.newPage());
+    await page.goto("https://example.com");
+
+    expect(await page.title()).toBe("Example Domain");
+    expect(
+      await page.evaluate(() => document.querySelector("h1")?.textContent)
+    ).toBe("Example Domain");
+
+    // Bindings go through Runtime.addBinding and Runtime.bindingCalled
+    await page.exposeFunction("double", (n: number) => n * 2);
+    expect(
+      await page.evaluate(() =>
+        (window as unknown as { double(n: number): Promise<number> }).double(21)
+      )
+    ).toBe(42);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  storeTrace,
+  summarizeWebVitals,
+  type TraceEvent
+} from "../worker/cdp/traces";
+
+const FRAME = "F1";
+const START = 1_000_000;
+
+const event = (
+  name: string,
+  msAfterStart: number,
+  extra: Partial<TraceEvent> = {}
+): TraceEvent => ({
+  name,
+  cat: "loading",
+  ph: "I",
+  ts: START + msAfterStart * 1000,
+  pid: 1,
+  tid: 1,
+  ...extra
+});
+
+const navigationStart = event("navigationStart", 0, {
+  args: {
+    frame: FRAME,
+    data: {
+      isLoadingMainFrame: true,
+      documentLoaderURL: "https://example.com/"
+    }
+  }
+});
+
+const inFrame = (
+  name: string,
+  ms: number,
+  data: Record<string, unknown> = {}
+) => event(name, ms, { args: { frame: FRAME, data } });
+
+describe("summarizeWebVitals", () => {
+  it("returns empty vitals when the trace has no page navigation", () => {
+    expect(
+      summarizeWebVitals([
+        event("navigationStart", 0, {
+          args: {
+            frame: FRAME,
+            data: { isLoadingMainFrame: true, documentLoaderURL: "" }
+          }
+        })
+      ])
+    ).toEqual({
+      cumulativeLayoutShift: 0,
+      totalBlockingTimeMs: 0,
+      longTasks: 0
+    });
+  });
+
+  it("times paints and load marks from navigation start", () => {
+    const vitals = summarizeWebVitals([
+      navigationStart,
+      inFrame("firstContentfulPaint", 400),
+      inFrame("largestContentfulPaint::Candidate", 500),
+      inFrame("largestContentfulPaint::Candidate", 900),
+      event("MarkDOMContent", 600, { args: { data: { isMainFrame: true } } }),
+      event("MarkLoad", 1200, { args: { data: { isMainFrame: true } } }),
+      // Another frame's paint doesn't count
+      event("firstContentfulPaint", 100, { args: { frame: "F2" } })
+    ]);
+
+    expect(vitals).toEqual({
+      url: "https://example.com/",
+      firstContentfulPaintMs: 400,
+      largestContentfulPaintMs: 900,
+      domContentLoadedMs: 600,
+      loadMs: 1200,
+      cumulativeLayoutShift: 0,
+      totalBlockingTimeMs: 0,
+      longTasks: 0
+    });
+  });
+
+  it("counts blocking time of long main-thread tasks after the first paint", () => {
+    const task = (ms: number, durationMs: number, tid = 1) =>
+      event("RunTask", ms, { ph: "X", dur: durationMs * 1000, tid });
+
+    const vitals = summarizeWebVitals([
+      navigationStart,
+      task(100, 300), // before the first paint
+      inFrame("firstContentfulPaint", 400),
+      task(500, 120),
+      task(700, 40), // short
+      task(800, 90),
+      task(900, 500, 2) // another thread
+    ]);
+
+    expect(vitals.longTasks).toBe(2);
+    expect(vitals.totalBlockingTimeMs).toBe(70 + 40);
+  });
+
+  it("takes the worst burst of layout shifts without recent input", () => {
+    const vitals = summarizeWebVitals([
+      navigationStart,
+      inFrame("LayoutShift", 100, { weighted_score_delta: 0.05 }),
+      inFrame("LayoutShift", 500, { weighted_score_delta: 0.05 }),
+      inFrame("LayoutShift", 600, {
+        weighted_score_delta: 0.5,
+        had_recent_input: true
+      }),
+      // More than a second later, so a new burst
+      inFrame("LayoutShift", 2000, { weighted_score_delta: 0.2 }),
+      inFrame("LayoutShift", 2500, { score: 0.03 })
+    ]);
+
+    expect(vitals.cumulativeLayoutShift).toBe(0.23);
+  });
+});
+
+describe("storeTrace", () => {
+  it("stores the trace with its owner", async () => {
+    const put = vi.fn(async () => {});
+    const bucket = { put } as unknown as R2Bucket;
+    const id = await storeTrace(bucket, [event("firstPaint", 0)], "secret");
+
+    expect(put).toHaveBeenCalledWith(
+      `cdp/traces/${id}.json`,
+      expect.stringContaining('"traceEvents"'),
+      expect.objectContaining({ customMetadata: { owner: "secret" } })
+    );
+  });
+});
@@ -20,6 +20,12 @@ export default defineWorkersConfig({
         wrangler: { configPath: "./wrangler.jsonc" }
       }
     },
-    exclude: ["**/node_modules/**", "**/dist/**", "**/refrence-apps/**"]
+    exclude: [
+      "**/node_modules/**",
+      "**/dist/**",
+      "**/refrence-apps/**",
+      // Run in Node against a deployed worker (see vitest.smoke.config.ts)
+      "tests/smoke/**"
+    ]
   }
 });
@@ -0,0 +1,14 @@
+import { defineConfig } from "vitest/config";
+
+/**
+ * Smoke tests that drive a deployed worker from Node, e.g. with Playwright.
+ * They are skipped unless the environment points them at a worker (see each
+ * test for the variables it needs).
+ */
+export default defineConfig({
+  test: {
+    environment: "node",
+    include: ["tests/smoke/**/*.test.ts"],
+    testTimeout: 120_000
+  }
+});
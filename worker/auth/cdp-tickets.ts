@@ -0,0 +1,247 @@
+import { createHash, createHmac, randomUUID, timingSafeEqual } from "crypto";
+import type { AgentEnv } from "../types";
+import { CDP_TICKET_MAX_TTL_SECONDS, CDP_TICKET_TTL_SECONDS } from "../config";
+
+/** R2 prefix under which issued tickets are recorded until they are revoked */
+const TICKETS_PREFIX = "cdp/tickets/";
+
+/**
+ * Claims carried by a CDP access ticket
+ */
+export interface CDPTicketClaims {
+  /** Ticket ID, used to revoke it */
+  jti: string;
+  /** Issued at (seconds since epoch) */
+  iat: number;
+  /** Expires at (seconds since epoch) */
+  exp: number;
+  /** Origins allowed to use the ticket; any origin when omitted */
+  origins?: string[];
+  /** CDP methods (or `Domain.*` wildcards) the ticket allows; all when omitted */
+  methods?: string[];
+  /** Who the ticket acts for, owning the browsers it opens; the ticket itself when omitted */
+  sub?: string;
+  /** Browser session the ticket is limited to, whoever opened it */
+  session?: string;
+}
+
+/**
+ * Options for minting a CDP access ticket
+ */
+export interface CDPTicketOptions {
+  /** Lifetime in seconds, capped at CDP_TICKET_MAX_TTL_SECONDS */
+  ttlSeconds?: number;
+  origins?: string[];
+  methods?: string[];
+  /** Owner to share browsers with, such as another ticket's `sub` */
+  sub?: string;
+  /** Browser session to limit the ticket to */
+  session?: string;
+  /** Free-form note shown when listing tickets */
+  label?: string;
+}
+
+/**
+ * An issued ticket as listed by the admin API
+ */
+export interface CDPTicketRecord {
+  id: string;
+  label?: string;
+  issuedAt: string;
+  expiresAt: string;
+  origins?: string[];
+  methods?: string[];
+  sub?: string;
+  session?: string;
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+/**
+ * Compare two strings in constant time.
+ * Both sides are hashed first so their lengths don't leak either.
+ */
+export function secretsEqual(provided: string, expected: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(provided), digest(expected));
+}
+
+/**
+ * Mint a signed CDP access ticket and record it so it can be revoked
+ *
+ * @param env - Worker environment (CDP_SECRET signs the ticket)
+ * @param options - Lifetime and optional origin/method limits
+ * @returns The ticket string and its claims
+ */
+export async function mintCDPTicket(
+  env: AgentEnv,
+  options: CDPTicketOptions = {}
+): Promise<{ ticket: string; claims: CDPTicketClaims }> {
+  if (!env.CDP_SECRET) throw new Error("CDP_SECRET is not configured");
+
+  const ttl = Math.min(
+    options.ttlSeconds && options.ttlSeconds > 0
+      ? options.ttlSeconds
+      : CDP_TICKET_TTL_SECONDS,
+    CDP_TICKET_MAX_TTL_SECONDS
+  );
+  const iat = Math.floor(Date.now() / 1000);
+  const claims: CDPTicketClaims = {
+    jti: randomUUID(),
+    iat,
+    exp: iat + ttl,
+    origins: options.origins?.length ? options.origins : undefined,
+    methods: options.methods?.length ? options.methods : undefined,
+    sub: options.sub || undefined,
+    session: options.session || undefined
+  };
+
+  const record: CDPTicketRecord = {
+    id: claims.jti,
+    label: options.label,
+    issuedAt: new Date(claims.iat * 1000).toISOString(),
+    expiresAt: new Date(claims.exp * 1000).toISOString(),
+    origins: claims.origins,
+    methods: claims.methods,
+    sub: claims.sub,
+    session: claims.session
+  };
+  await env.MOLTBOT_BUCKET.put(
+    `${TICKETS_PREFIX}${claims.jti}`,
+    JSON.stringify(record)
+  );
+
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  return { ticket: `${payload}.${sign(payload, env.CDP_SECRET)}`, claims };
+}
+
+/**
+ * Verify a CDP access ticket's signature, expiry and revocation status
+ *
+ * @returns The ticket's claims if it is valid
+ * @throws Error if the ticket is malformed, forged, expired or revoked
+ */
+export async function verifyCDPTicket(
+  env: AgentEnv,
+  ticket: string
+): Promise<CDPTicketClaims> {
+  if (!env.CDP_SECRET) throw new Error("CDP_SECRET is not configured");
+
+  const [payload, signature, extra] = ticket.split(".");
+  if (!payload || !signature || extra !== undefined) {
+    throw new Error("Malformed ticket");
+  }
+
+  const expected = Buffer.from(sign(payload, env.CDP_SECRET));
+  const provided = Buffer.from(signature);
+  if (
+    provided.length !== expected.length ||
+    !timingSafeEqual(provided, expected)
+  ) {
+    throw new Error("Invalid ticket signature");
+  }
+
+  const claims = JSON.parse(
+    Buffer.from(payload, "base64url").toString("utf8")
+  ) as CDPTicketClaims;
+  if (claims.exp <= Date.now() / 1000) {
+    throw new Error("Ticket expired");
+  }
+
+  // Revoking deletes the record, so a missing record means a revoked ticket
+  const record = await env.MOLTBOT_BUCKET.head(
+    `${TICKETS_PREFIX}${claims.jti}`
+  );
+  if (!record) throw new Error("Ticket revoked");
+
+  return claims;
+}
+
+/**
+ * Revoke a ticket by ID
+ *
+ * @returns Whether the ticket was still active
+ */
+export async function revokeCDPTicket(
+  env: AgentEnv,
+  id: string
+): Promise<boolean> {
+  const key = `${TICKETS_PREFIX}${id}`;
+  const existing = await env.MOLTBOT_BUCKET.head(key);
+  if (!existing) return false;
+
+  await env.MOLTBOT_BUCKET.delete(key);
+  return true;
+}
+
+/**
+ * List unexpired tickets, dropping the records of expired ones
+ */
+export async function listCDPTickets(
+  env: AgentEnv
+): Promise<CDPTicketRecord[]> {
+  const records: CDPTicketRecord[] = [];
+  const expired: string[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const listing = await env.MOLTBOT_BUCKET.list({
+      prefix: TICKETS_PREFIX,
+      cursor
+    });
+    for (const object of listing.objects) {
+      const body = await env.MOLTBOT_BUCKET.get(object.key);
+      if (!body) continue;
+
+      const record = await body.json<CDPTicketRecord>();
+      if (Date.parse(record.expiresAt) <= Date.now()) {
+        expired.push(object.key);
+      } else {
+        records.push(record);
+      }
+    }
+    cursor = listing.truncated ? listing.cursor : undefined;
+  } while (cursor);
+
+  if (expired.length > 0) await env.MOLTBOT_BUCKET.delete(expired);
+  return records;
+}
+
+/**
+ * Check whether a ticket allows a request from the given Origin header
+ */
+export function isOriginAllowed(
+  claims: CDPTicketClaims,
+  origin: string | undefined
+): boolean {
+  if (!claims.origins) return true;
+  return !!origin && claims.origins.includes(origin);
+}
+
+/**
+ * Check whether a ticket allows a browser session; a ticket without a session
+ * claim leaves that to ownership
+ */
+export function isSessionAllowed(
+  claims: CDPTicketClaims,
+  sessionId: string
+): boolean {
+  return !claims.session || claims.session === sessionId;
+}
+
+/**
+ * Check whether a ticket allows a CDP method, matching exact names and
+ * `Domain.*` wildcards
+ */
+export function isMethodAllowed(
+  claims: CDPTicketClaims,
+  method: string
+): boolean {
+  if (!claims.methods) return true;
+  const domain = method.split(".")[0];
+  return claims.methods.some(
+    (allowed) => allowed === method || allowed === `${domain}.*`
+  );
+}
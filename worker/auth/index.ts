@@ -1,2 +1,17 @@
 export { verifyAccessJWT } from "./jwt";
 export { createAccessMiddleware, isDevMode, extractJWT } from "./middleware";
+export {
+  mintCDPTicket,
+  verifyCDPTicket,
+  revokeCDPTicket,
+  listCDPTickets,
+  secretsEqual,
+  isOriginAllowed,
+  isMethodAllowed,
+  isSessionAllowed
+} from "./cdp-tickets";
+export type {
+  CDPTicketClaims,
+  CDPTicketOptions,
+  CDPTicketRecord
+} from "./cdp-tickets";
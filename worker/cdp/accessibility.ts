@@ -0,0 +1,165 @@
+import type { Page } from "@cloudflare/puppeteer";
+
+/**
+ * A value in an accessibility node, as reported by Chrome
+ */
+export interface AXValue {
+  type: string;
+  value?: unknown;
+}
+
+/**
+ * An accessibility node from Accessibility.getFullAXTree / queryAXTree
+ */
+export interface AXNode {
+  nodeId: string;
+  ignored: boolean;
+  role?: AXValue;
+  name?: AXValue;
+  value?: AXValue;
+  properties?: { name: string; value: AXValue }[];
+  parentId?: string;
+  childIds?: string[];
+  backendDOMNodeId?: number;
+  frameId?: string;
+}
+
+/** Roles that only group their children; they're left out unless named */
+const STRUCTURAL_ROLES = new Set([
+  "generic",
+  "none",
+  "presentation",
+  "InlineTextBox",
+  "LineBreak"
+]);
+
+/** Boolean properties shown as `[name]` when set */
+const FLAG_PROPERTIES = [
+  "focused",
+  "disabled",
+  "required",
+  "readonly",
+  "selected",
+  "modal"
+];
+
+/** Names longer than this are cut short in snapshots */
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * The ref a snapshot gives a DOM node
+ */
+export function refForBackendNodeId(backendNodeId: number): string {
+  return `e${backendNodeId}`;
+}
+
+/**
+ * The backend DOM node a snapshot ref points at, for use with DOM commands
+ * such as DOM.getContentQuads or DOM.focus
+ *
+ * @throws Error if the ref wasn't produced by formatAXSnapshot
+ */
+export function backendNodeIdForRef(ref: string): number {
+  const match = /^e(\d+)$/.exec(ref.trim());
+  if (!match) throw new Error(`Invalid element ref: ${ref}`);
+  return Number(match[1]);
+}
+
+function text(value: AXValue | undefined): string {
+  if (value?.value === undefined || value.value === null) return "";
+  const str = String(value.value).replace(/\s+/g, " ").trim();
+  return str.length > MAX_NAME_LENGTH
+    ? `${str.slice(0, MAX_NAME_LENGTH)}…`
+    : str;
+}
+
+/**
+ * States of a node in `[state]` notation, e.g. `[checked] [level=2]`
+ */
+function statesOf(node: AXNode): string[] {
+  const states: string[] = [];
+  for (const { name, value } of node.properties ?? []) {
+    if (FLAG_PROPERTIES.includes(name)) {
+      if (value.value === true) states.push(`[${name}]`);
+    } else if (name === "checked" || name === "pressed") {
+      if (value.value === "true" || value.value === true) {
+        states.push(`[${name}]`);
+      } else if (value.value === "mixed") {
+        states.push(`[${name}=mixed]`);
+      }
+    } else if (name === "expanded") {
+      states.push(value.value ? "[expanded]" : "[collapsed]");
+    } else if (name === "level") {
+      states.push(`[level=${value.value}]`);
+    }
+  }
+  return states;
+}
+
+/**
+ * Render an accessibility tree as a compact outline for LLM agents:
+ *
+ *   - heading "Example Domain" [level=1] [ref=e7]
+ *   - link "More information..." [ref=e12]
+ *   - textbox "Search" [focused] [ref=e15]: current value
+ *
+ * Ignored and unnamed structural nodes are flattened into their parents.
+ * Refs stay the same across snapshots of the same document, and can be turned
+ * back into a DOM node with backendNodeIdForRef.
+ */
+export function formatAXSnapshot(nodes: AXNode[]): string {
+  const byId = new Map(nodes.map((node) => [node.nodeId, node]));
+  const root = nodes.find((node) => !node.parentId || !byId.has(node.parentId));
+  if (!root) return "";
+
+  const lines: string[] = [];
+  const visit = (node: AXNode, depth: number, parentName: string) => {
+    const role = text(node.role);
+    const name = text(node.name);
+    const children = (node.childIds ?? [])
+      .map((id) => byId.get(id))
+      .filter((child): child is AXNode => !!child);
+
+    const skip =
+      node === root || node.ignored || (STRUCTURAL_ROLES.has(role) && !name);
+    if (skip) {
+      for (const child of children) visit(child, depth, parentName);
+      return;
+    }
+
+    const indent = "  ".repeat(depth);
+    if (role === "StaticText") {
+      // Text repeating its parent's name (link or button labels) adds nothing
+      if (name && name !== parentName) lines.push(`${indent}- text: ${name}`);
+      return;
+    }
+
+    let line = `${indent}- ${role}`;
+    if (name) line += ` ${JSON.stringify(name)}`;
+    for (const state of statesOf(node)) line += ` ${state}`;
+    if (node.backendDOMNodeId !== undefined) {
+      line += ` [ref=${refForBackendNodeId(node.backendDOMNodeId)}]`;
+    }
+    const value = text(node.value);
+    if (value) line += `: ${value}`;
+    lines.push(line);
+
+    for (const child of children) visit(child, depth + 1, name);
+  };
+
+  visit(root, 0, "");
+  return lines.join("\n");
+}
+
+/**
+ * Take a compact accessibility snapshot of a page (see formatAXSnapshot)
+ */
+export async function takeAXSnapshot(page: Page): Promise<string> {
+  const client = await page.createCDPSession();
+  try {
+    const { nodes } = await client.send("Accessibility.getFullAXTree");
+    return formatAXSnapshot(nodes as AXNode[]);
+  } finally {
+    await client.detach().catch(() => {});
+  }
+}
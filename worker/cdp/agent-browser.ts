@@ -0,0 +1,314 @@
+import puppeteer, { type Browser, type Page } from "@cloudflare/puppeteer";
+import { BROWSER_TOOL_IDLE_TIMEOUT_MS, CDP_KEEP_ALIVE_MS } from "../config";
+import { backendNodeIdForRef, takeAXSnapshot } from "./accessibility";
+
+/** How long an action waits for the navigation it may have started */
+const NAVIGATION_SETTLE_MS = 2000;
+
+/** Snapshots longer than this are cut short */
+const MAX_SNAPSHOT_LENGTH = 20_000;
+
+/**
+ * An element to act on: a ref from a snapshot (`e42`) or a CSS selector
+ */
+export interface ElementTarget {
+  ref?: string;
+  selector?: string;
+}
+
+/**
+ * Scroll an element into view and find its center (runs in the page)
+ */
+function centerOf(element: Element): { x: number; y: number } {
+  element.scrollIntoView({ block: "center", inline: "center" });
+  const rect = element.getBoundingClientRect();
+  if (rect.width === 0 || rect.height === 0) {
+    throw new Error("Element is not visible");
+  }
+  return { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 };
+}
+
+/**
+ * Focus an element and select its contents, so typing replaces them (runs in
+ * the page)
+ */
+function focusForTyping(element: Element): void {
+  if (!(element instanceof HTMLElement)) {
+    throw new Error("Element can't be typed into");
+  }
+  element.focus();
+  if (
+    element instanceof HTMLInputElement ||
+    element instanceof HTMLTextAreaElement
+  ) {
+    element.select();
+  } else if (element.isContentEditable) {
+    const range = document.createRange();
+    range.selectNodeContents(element);
+    window.getSelection()?.removeAllRanges();
+    window.getSelection()?.addRange(range);
+  }
+}
+
+/**
+ * Select the options of a <select> whose value or label is listed (runs in
+ * the page)
+ *
+ * @returns The values now selected
+ */
+function selectOptions(element: Element, values: string[]): string[] {
+  if (!(element instanceof HTMLSelectElement)) {
+    throw new Error("Element is not a <select>");
+  }
+  for (const option of Array.from(element.options)) {
+    option.selected =
+      values.includes(option.value) || values.includes(option.label);
+  }
+  element.dispatchEvent(new Event("input", { bubbles: true }));
+  element.dispatchEvent(new Event("change", { bubbles: true }));
+  return Array.from(element.selectedOptions).map((option) => option.value);
+}
+
+/**
+ * Run a function on the element a target points at, in the page
+ */
+async function callOnElement<Args extends unknown[], T>(
+  page: Page,
+  target: ElementTarget,
+  fn: (element: Element, ...args: Args) => T,
+  ...args: Args
+): Promise<T> {
+  if (target.selector) {
+    const handle = await page.$(target.selector);
+    if (!handle) throw new Error(`No element matches ${target.selector}`);
+    try {
+      return (await handle.evaluate(
+        fn as (element: Element, ...args: unknown[]) => T,
+        ...args
+      )) as T;
+    } finally {
+      await handle.dispose();
+    }
+  }
+
+  if (!target.ref) throw new Error("Either ref or selector is required");
+  const client = await page.createCDPSession();
+  try {
+    const { object } = await client
+      .send("DOM.resolveNode", {
+        backendNodeId: backendNodeIdForRef(target.ref)
+      })
+      .catch(() => {
+        throw new Error(
+          `Element ${target.ref} is no longer on the page; take a new snapshot`
+        );
+      });
+    const { result, exceptionDetails } = await client.send(
+      "Runtime.callFunctionOn",
+      {
+        functionDeclaration: `function (...args) { return (${fn})(this, ...args); }`,
+        objectId: object.objectId,
+        arguments: args.map((value) => ({ value })),
+        returnByValue: true
+      }
+    );
+    if (exceptionDetails) {
+      const description =
+        exceptionDetails.exception?.description ?? exceptionDetails.text;
+      throw new Error(description.split("\n")[0].replace(/^Error: /, ""));
+    }
+    return result.value as T;
+  } finally {
+    await client.detach().catch(() => {});
+  }
+}
+
+/**
+ * A browser page that an agent keeps across tool calls, so it can click
+ * through a site, fill in forms and stay logged in.
+ *
+ * The browser is launched on first use and closed once it has gone unused for
+ * the idle timeout; the next action then starts over on a blank page, and
+ * takeRestartNotice says why.
+ */
+export class AgentBrowser {
+  private browser?: Browser;
+  private opening?: Promise<Page>;
+  private idleTimer?: ReturnType<typeof setTimeout>;
+  private restartReason?: string;
+
+  constructor(
+    private binding: Fetcher | undefined,
+    private idleTimeoutMs = BROWSER_TOOL_IDLE_TIMEOUT_MS
+  ) {}
+
+  /**
+   * The agent's page, launching a browser if none is open
+   */
+  async page(): Promise<Page> {
+    this.touch();
+    if (this.opening) {
+      const page = await this.opening;
+      if (this.browser?.isConnected() && !page.isClosed()) return page;
+      await this.close();
+      this.restartReason = "the previous browser was disconnected";
+      this.touch();
+    }
+
+    const binding = this.binding;
+    if (!binding) {
+      throw new Error("Browser Rendering (env.BROWSER) is not configured.");
+    }
+    this.opening = (async () => {
+      // Browser Rendering would otherwise end an inactive browser after a
+      // minute, well before our own idle timeout
+      this.browser = await puppeteer.launch(binding, {
+        keep_alive: Math.min(this.idleTimeoutMs, CDP_KEEP_ALIVE_MS)
+      });
+      const page = await this.browser.newPage();
+      await page.setViewport({ width: 1280, height: 800 });
+      return page;
+    })();
+    this.opening.catch(() => this.close());
+    return this.opening;
+  }
+
+  async navigate(url: string): Promise<void> {
+    const page = await this.page();
+    await page.goto(url, { waitUntil: "domcontentloaded" });
+  }
+
+  async click(target: ElementTarget): Promise<void> {
+    const page = await this.page();
+    const { x, y } = await callOnElement(page, target, centerOf);
+    await this.settle(page, () => page.mouse.click(x, y));
+  }
+
+  /**
+   * Replace the contents of a text field, optionally pressing Enter after
+   */
+  async type(
+    target: ElementTarget,
+    text: string,
+    submit = false
+  ): Promise<void> {
+    const page = await this.page();
+    await callOnElement(page, target, focusForTyping);
+    await page.keyboard.type(text);
+    if (submit) await this.settle(page, () => page.keyboard.press("Enter"));
+  }
+
+  /**
+   * @returns The values now selected
+   */
+  async select(target: ElementTarget, values: string[]): Promise<string[]> {
+    const page = await this.page();
+    return callOnElement(page, target, selectOptions, values);
+  }
+
+  /**
+   * Scroll an element into view, or the page by most of a screen
+   */
+  async scroll(
+    target: ElementTarget,
+    direction: "up" | "down" = "down"
+  ): Promise<void> {
+    const page = await this.page();
+    if (target.ref || target.selector) {
+      await callOnElement(page, target, centerOf);
+      return;
+    }
+    await page.evaluate(
+      (sign) => {
+        window.scrollBy(0, sign * window.innerHeight * 0.8);
+      },
+      direction === "up" ? -1 : 1
+    );
+  }
+
+  async waitFor(selector: string, timeoutMs: number): Promise<void> {
+    const page = await this.page();
+    await page.waitForSelector(selector, { visible: true, timeout: timeoutMs });
+  }
+
+  async back(): Promise<void> {
+    const page = await this.page();
+    await page.goBack({ waitUntil: "domcontentloaded" });
+  }
+
+  async forward(): Promise<void> {
+    const page = await this.page();
+    await page.goForward({ waitUntil: "domcontentloaded" });
+  }
+
+  /**
+   * The page's title and URL followed by its accessibility snapshot, whose
+   * refs the other actions accept
+   */
+  async snapshot(): Promise<string> {
+    const page = await this.page();
+    const snapshot = await takeAXSnapshot(page);
+    return [
+      `Page: ${await page.title()} (${page.url()})`,
+      "",
+      snapshot.slice(0, MAX_SNAPSHOT_LENGTH) +
+        (snapshot.length > MAX_SNAPSHOT_LENGTH ? "\n...[truncated]" : "")
+    ].join("\n");
+  }
+
+  /**
+   * Close the browser, if open
+   */
+  async close(): Promise<void> {
+    clearTimeout(this.idleTimer);
+    const browser = this.browser;
+    this.browser = undefined;
+    this.opening = undefined;
+    this.restartReason = undefined;
+    await browser?.close().catch(() => {});
+  }
+
+  /**
+   * Why the last action had to start over in a new browser, losing the page,
+   * its history and any logins, if it did. Reported once.
+   */
+  takeRestartNotice(): string | undefined {
+    const reason = this.restartReason;
+    if (!reason || !this.browser) return undefined;
+    this.restartReason = undefined;
+    return `Note: ${reason}, so a new one was started on a blank page. Earlier page state, history and logins are gone.`;
+  }
+
+  /**
+   * Run an action that may start a navigation, and give it a moment to load
+   */
+  private async settle(page: Page, action: () => Promise<void>) {
+    const navigation = page
+      .waitForNavigation({
+        waitUntil: "domcontentloaded",
+        timeout: NAVIGATION_SETTLE_MS
+      })
+      .catch(() => null);
+    await action();
+    await navigation;
+  }
+
+  /**
+   * Restart the idle timer
+   */
+  private touch() {
+    clearTimeout(this.idleTimer);
+    this.idleTimer = setTimeout(() => void this.expire(), this.idleTimeoutMs);
+  }
+
+  /**
+   * Close a browser that has gone unused, remembering to say so
+   */
+  private async expire() {
+    const wasOpen = !!this.opening;
+    await this.close();
+    if (wasOpen) {
+      this.restartReason = `the previous browser was closed after ${Math.round(this.idleTimeoutMs / 60_000)} minutes unused`;
+    }
+  }
+}
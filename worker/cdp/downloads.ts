@@ -0,0 +1,207 @@
+import type { CDPSession, Page } from "@cloudflare/puppeteer";
+import {
+  BROWSER_DOWNLOADS_PREFIX,
+  BROWSER_MAX_DOWNLOAD_BYTES
+} from "../config";
+
+/** Least time between two in-progress events for one download */
+const PROGRESS_INTERVAL_MS = 500;
+
+/**
+ * A download Chrome is about to start, as in Browser.downloadWillBegin
+ */
+export interface DownloadWillBegin {
+  frameId: string;
+  guid: string;
+  url: string;
+  suggestedFilename: string;
+}
+
+/**
+ * State of a download, as in Browser.downloadProgress. `filePath` is the R2
+ * key a completed file was stored under; `totalBytes` is 0 while unknown.
+ */
+export interface DownloadProgress {
+  guid: string;
+  totalBytes: number;
+  receivedBytes: number;
+  state: "inProgress" | "completed" | "canceled";
+  filePath?: string;
+}
+
+/**
+ * Callbacks for intercepted downloads
+ */
+export interface DownloadHandlers {
+  /** Page a frame belongs to, whose cookies are used to fetch the file */
+  pageFor(frameId: string): Page | undefined;
+  onWillBegin?(event: DownloadWillBegin): void;
+  onProgress?(event: DownloadProgress): void;
+}
+
+/**
+ * R2 prefix for the downloads of one owner, such as an agent or a browser
+ * session
+ */
+export function downloadsPrefix(owner: string): string {
+  return `${BROWSER_DOWNLOADS_PREFIX}${owner.replace(/[^\w.-]/g, "_")}/`;
+}
+
+/**
+ * Fetch a file the way the page would: blob: and data: URLs from inside the
+ * page, everything else from the Worker with the page's cookies, reporting
+ * the bytes received so far as they stream in.
+ *
+ * This is a plain GET, so it can't repeat downloads that need the original
+ * request: form POSTs, one-time links and headers the page set itself.
+ */
+async function fetchDownload(
+  page: Page,
+  url: string,
+  onReceived: (receivedBytes: number, totalBytes: number) => void
+): Promise<{ body: Uint8Array; contentType: string }> {
+  if (url.startsWith("blob:") || url.startsWith("data:")) {
+    const { data, contentType } = await page.evaluate(async (href) => {
+      const response = await fetch(href);
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      let binary = "";
+      for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+      }
+      return {
+        data: btoa(binary),
+        contentType: response.headers.get("content-type") ?? ""
+      };
+    }, url);
+    return { body: Buffer.from(data, "base64"), contentType };
+  }
+
+  const cookies = await page.cookies(url);
+  const response = await fetch(url, {
+    headers: {
+      "User-Agent": await page.browser().userAgent(),
+      Referer: page.url(),
+      Cookie: cookies.map((c) => `${c.name}=${c.value}`).join("; ")
+    }
+  });
+  if (!response.ok) {
+    throw new Error(`Download failed: ${response.status} ${url}`);
+  }
+  const totalBytes = Number(response.headers.get("content-length")) || 0;
+  if (totalBytes > BROWSER_MAX_DOWNLOAD_BYTES) {
+    throw new Error(`Download too large: ${url}`);
+  }
+
+  const chunks: Uint8Array[] = [];
+  let receivedBytes = 0;
+  if (response.body) {
+    const reader = response.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      receivedBytes += value.byteLength;
+      if (receivedBytes > BROWSER_MAX_DOWNLOAD_BYTES) {
+        await reader.cancel();
+        throw new Error(`Download too large: ${url}`);
+      }
+      chunks.push(value);
+      onReceived(receivedBytes, totalBytes);
+    }
+  }
+
+  const body = new Uint8Array(receivedBytes);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return { body, contentType: response.headers.get("content-type") ?? "" };
+}
+
+/**
+ * Store the downloads started through a browser-level DevTools session in R2.
+ *
+ * Chrome would save files on the Browser Rendering host, out of the Worker's
+ * reach, so its copy is canceled and the file fetched again and stored under
+ * `prefix` instead (see fetchDownload for what can't be fetched again).
+ * Progress is reported as it streams in, at most every PROGRESS_INTERVAL_MS,
+ * and once more when the file is stored or given up on.
+ *
+ * @returns A function that stops intercepting and restores Chrome's default
+ */
+export async function interceptDownloads(
+  client: CDPSession,
+  bucket: R2Bucket,
+  prefix: string,
+  handlers: DownloadHandlers
+): Promise<() => Promise<void>> {
+  const onWillBegin = async (event: DownloadWillBegin) => {
+    await client
+      .send("Browser.cancelDownload", { guid: event.guid })
+      .catch(() => {});
+    handlers.onWillBegin?.(event);
+
+    let reportedAt = 0;
+    const onReceived = (receivedBytes: number, totalBytes: number) => {
+      if (Date.now() - reportedAt < PROGRESS_INTERVAL_MS) return;
+      reportedAt = Date.now();
+      handlers.onProgress?.({
+        guid: event.guid,
+        totalBytes,
+        receivedBytes,
+        state: "inProgress"
+      });
+    };
+    onReceived(0, 0);
+
+    const page = handlers.pageFor(event.frameId);
+    try {
+      if (!page) throw new Error(`No page for frame ${event.frameId}`);
+      const { body, contentType } = await fetchDownload(
+        page,
+        event.url,
+        onReceived
+      );
+      if (body.byteLength > BROWSER_MAX_DOWNLOAD_BYTES) {
+        throw new Error(`Download too large: ${event.url}`);
+      }
+
+      const name = event.suggestedFilename.replace(/[/\\]/g, "_") || "download";
+      const key = `${prefix}${event.guid}/${name}`;
+      await bucket.put(key, body, {
+        httpMetadata: { contentType: contentType || undefined },
+        customMetadata: { url: event.url }
+      });
+      handlers.onProgress?.({
+        guid: event.guid,
+        totalBytes: body.byteLength,
+        receivedBytes: body.byteLength,
+        state: "completed",
+        filePath: key
+      });
+    } catch (err) {
+      console.warn("[Downloads] Could not store download:", event.url, err);
+      handlers.onProgress?.({
+        guid: event.guid,
+        totalBytes: 0,
+        receivedBytes: 0,
+        state: "canceled"
+      });
+    }
+  };
+
+  const listener = (event: DownloadWillBegin) => void onWillBegin(event);
+  client.on("Browser.downloadWillBegin", listener);
+  await client.send("Browser.setDownloadBehavior", {
+    behavior: "allowAndName",
+    downloadPath: "/tmp/downloads",
+    eventsEnabled: true
+  });
+
+  return async () => {
+    client.off("Browser.downloadWillBegin", listener);
+    await client
+      .send("Browser.setDownloadBehavior", { behavior: "default" })
+      .catch(() => {});
+  };
+}
@@ -0,0 +1,53 @@
+export {
+  CDPRecorder,
+  listCDPRecordings,
+  getCDPRecording,
+  getCDPRecordingScreenshot,
+  hasOmittedValues
+} from "./recordings";
+export type {
+  CDPRecording,
+  CDPRecordingInfo,
+  CDPRecorderOptions,
+  CDPReplay,
+  CDPReplayStep,
+  RecordedMessage
+} from "./recordings";
+export {
+  formatAXSnapshot,
+  takeAXSnapshot,
+  refForBackendNodeId,
+  backendNodeIdForRef
+} from "./accessibility";
+export type { AXNode, AXValue } from "./accessibility";
+export { resolveKey, withKnownKey } from "./keys";
+export { downloadsPrefix, interceptDownloads } from "./downloads";
+export type {
+  DownloadHandlers,
+  DownloadProgress,
+  DownloadWillBegin
+} from "./downloads";
+export {
+  WEB_VITALS_TRACE_CATEGORIES,
+  storeTrace,
+  getTrace,
+  summarizeWebVitals
+} from "./traces";
+export type { TraceEvent, WebVitals } from "./traces";
+export { AgentBrowser } from "./agent-browser";
+export type { ElementTarget } from "./agent-browser";
+export {
+  readPageAsMarkdown,
+  formatReadablePage,
+  paginateMarkdown
+} from "./markdown";
+export type { MarkdownChunk, ReadablePage } from "./markdown";
+export {
+  screenshotKey,
+  screenshotPath,
+  storeScreenshot,
+  getScreenshot,
+  loadScreenshots,
+  isScreenshotToolResult
+} from "./screenshots";
+export type { ScreenshotInfo, ScreenshotToolResult } from "./screenshots";
@@ -0,0 +1,72 @@
+import type { KeyInput } from "@cloudflare/puppeteer";
+
+/**
+ * Windows virtual key codes for keys that can't be derived from their character
+ */
+const VIRTUAL_KEY_CODES: Record<number, KeyInput> = {
+  8: "Backspace",
+  9: "Tab",
+  13: "Enter",
+  16: "Shift",
+  17: "Control",
+  18: "Alt",
+  27: "Escape",
+  32: " ",
+  33: "PageUp",
+  34: "PageDown",
+  35: "End",
+  36: "Home",
+  37: "ArrowLeft",
+  38: "ArrowUp",
+  39: "ArrowRight",
+  40: "ArrowDown",
+  45: "Insert",
+  46: "Delete",
+  91: "Meta"
+};
+
+/**
+ * Resolve the Puppeteer key name for a CDP key event.
+ * Tries `key`, then `code`, then the Windows virtual key code.
+ */
+export function resolveKey(params: Record<string, unknown>): KeyInput[] {
+  const candidates: KeyInput[] = [];
+  if (params.key) candidates.push(params.key as KeyInput);
+  if (params.code) candidates.push(params.code as KeyInput);
+
+  const keyCode = params.windowsVirtualKeyCode as number | undefined;
+  if (keyCode !== undefined) {
+    if (VIRTUAL_KEY_CODES[keyCode]) {
+      candidates.push(VIRTUAL_KEY_CODES[keyCode]);
+    } else if (
+      (keyCode >= 48 && keyCode <= 57) ||
+      (keyCode >= 65 && keyCode <= 90)
+    ) {
+      candidates.push(String.fromCharCode(keyCode).toLowerCase() as KeyInput);
+    } else if (keyCode >= 112 && keyCode <= 135) {
+      candidates.push(`F${keyCode - 111}` as KeyInput);
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Run a keyboard action with the first key name Puppeteer recognizes.
+ * Returns false if none of the candidates are in Puppeteer's key layout.
+ */
+export async function withKnownKey(
+  candidates: KeyInput[],
+  action: (key: KeyInput) => Promise<void>
+): Promise<boolean> {
+  for (const key of candidates) {
+    try {
+      await action(key);
+      return true;
+    } catch (err) {
+      if (!(err instanceof Error && err.message.startsWith("Unknown key"))) {
+        throw err;
+      }
+    }
+  }
+  return false;
+}
@@ -0,0 +1,304 @@
+import type { Page } from "@cloudflare/puppeteer";
+
+/**
+ * The main content of a page as Markdown
+ */
+export interface ReadablePage {
+  title: string;
+  byline?: string;
+  url: string;
+  markdown: string;
+}
+
+/**
+ * One stretch of a long Markdown document
+ */
+export interface MarkdownChunk {
+  content: string;
+  /** Where the chunk starts, in characters */
+  start: number;
+  /** Where the next chunk starts, if there is one */
+  nextCursor?: number;
+  total: number;
+}
+
+/**
+ * Finds the main content of the page and renders it as Markdown.
+ *
+ * The content root is the innermost article/main-like element still holding
+ * most of the page's text, else the body. Navigation, headers, footers, forms
+ * and hidden elements are dropped, and links and images made absolute.
+ * Everything this function needs must live inside it since it is serialized
+ * into the page.
+ */
+function extractReadable(): ReadablePage {
+  const SKIPPED = new Set([
+    "script",
+    "style",
+    "noscript",
+    "template",
+    "iframe",
+    "svg",
+    "canvas",
+    "nav",
+    "aside",
+    "form",
+    "button",
+    "dialog"
+  ]);
+  const SKIPPED_ROLES = new Set([
+    "navigation",
+    "banner",
+    "contentinfo",
+    "complementary",
+    "dialog",
+    "search"
+  ]);
+  const BLOCKS = new Set([
+    "p",
+    "div",
+    "section",
+    "article",
+    "main",
+    "header",
+    "footer",
+    "figure",
+    "figcaption",
+    "details",
+    "summary",
+    "dl",
+    "dt",
+    "dd",
+    "address"
+  ]);
+
+  const meta = (selector: string) =>
+    document.querySelector(selector)?.getAttribute("content")?.trim() ||
+    undefined;
+  const absolute = (url: string) => {
+    try {
+      return new URL(url, document.baseURI).href;
+    } catch {
+      return url;
+    }
+  };
+  const textLength = (el: Element) =>
+    (el as HTMLElement).innerText?.length ?? el.textContent?.length ?? 0;
+
+  const isSkipped = (el: Element, inContent: boolean) => {
+    const tag = el.localName;
+    if (SKIPPED.has(tag)) return true;
+    // A page's own header and footer are chrome; an article's are content
+    if ((tag === "header" || tag === "footer") && !inContent) return true;
+    if (SKIPPED_ROLES.has(el.getAttribute("role") ?? "")) return true;
+    if (el.getAttribute("aria-hidden") === "true") return true;
+    if ((el as HTMLElement).hidden) return true;
+    const style = getComputedStyle(el);
+    return style.display === "none" || style.visibility === "hidden";
+  };
+
+  const inline = (text: string) => text.replace(/\s+/g, " ");
+  const escapeCell = (text: string) =>
+    text.replace(/\|/g, "\\|").replace(/\n+/g, " ").trim();
+  const indent = (text: string, prefix: string) =>
+    text
+      .split("\n")
+      .map((line, i) => (i === 0 || !line ? line : prefix + line))
+      .join("\n");
+
+  const table = (el: HTMLTableElement): string => {
+    const rows = Array.from(el.rows).map((row) =>
+      Array.from(row.cells).map((cell) => escapeCell(children(cell, true)))
+    );
+    if (rows.length === 0) return "";
+    const width = Math.max(...rows.map((row) => row.length));
+    const line = (cells: string[]) =>
+      `| ${Array.from({ length: width }, (_, i) => cells[i] ?? "").join(" | ")} |`;
+    return [
+      line(rows[0]),
+      `|${" --- |".repeat(width)}`,
+      ...rows.slice(1).map(line)
+    ].join("\n");
+  };
+
+  const list = (el: Element, inContent: boolean): string => {
+    const ordered = el.localName === "ol";
+    let number = Number((el as HTMLOListElement).start) || 1;
+    const items = Array.from(el.children)
+      .filter((child) => child.localName === "li")
+      .map((item) => {
+        const marker = ordered ? `${number++}. ` : "- ";
+        const body = children(item, inContent)
+          .trim()
+          .replace(/\n{2,}/g, "\n");
+        return marker + indent(body, " ".repeat(marker.length));
+      });
+    return items.join("\n");
+  };
+
+  const convert = (node: Node, inContent: boolean): string => {
+    if (node.nodeType === Node.TEXT_NODE) return inline(node.nodeValue ?? "");
+    if (node.nodeType !== Node.ELEMENT_NODE) return "";
+
+    const el = node as Element;
+    if (isSkipped(el, inContent)) return "";
+    const tag = el.localName;
+    const content = () =>
+      children(el, inContent || tag === "article" || tag === "main");
+
+    if (/^h[1-6]$/.test(tag)) {
+      const text = content().trim();
+      return text ? `\n\n${"#".repeat(Number(tag[1]))} ${text}\n\n` : "";
+    }
+    switch (tag) {
+      case "br":
+        return "\n";
+      case "hr":
+        return "\n\n---\n\n";
+      case "a": {
+        const text = content().trim();
+        const href = el.getAttribute("href");
+        if (!href || href.startsWith("javascript:") || !text) return text;
+        if (href.startsWith("#")) return text;
+        return `[${text}](${absolute(href)})`;
+      }
+      case "img": {
+        const src = el.getAttribute("src");
+        const alt = el.getAttribute("alt")?.trim() ?? "";
+        return src && !src.startsWith("data:")
+          ? `![${alt}](${absolute(src)})`
+          : alt;
+      }
+      case "strong":
+      case "b": {
+        const text = content().trim();
+        return text ? `**${text}**` : "";
+      }
+      case "em":
+      case "i": {
+        const text = content().trim();
+        return text ? `*${text}*` : "";
+      }
+      case "code": {
+        // The fence must be longer than any run of backticks in the code,
+        // and padded if the code starts or ends with one
+        const text = inline(el.textContent ?? "");
+        const longest = Math.max(
+          0,
+          ...(text.match(/`+/g) ?? []).map((run) => run.length)
+        );
+        const fence = "`".repeat(longest + 1);
+        const pad = text.startsWith("`") || text.endsWith("`") ? " " : "";
+        return text ? `${fence}${pad}${text}${pad}${fence}` : "";
+      }
+      case "pre": {
+        const code = el.querySelector("code") ?? el;
+        const language =
+          /(?:lang|language)-([\w+-]+)/.exec(code.className)?.[1] ?? "";
+        const text = (el.textContent ?? "").replace(/\n$/, "");
+        return `\n\n\`\`\`${language}\n${text}\n\`\`\`\n\n`;
+      }
+      case "blockquote": {
+        const text = content().trim();
+        return `\n\n${text
+          .split("\n")
+          .map((line) => `> ${line}`)
+          .join("\n")}\n\n`;
+      }
+      case "ul":
+      case "ol":
+        return `\n\n${list(el, inContent)}\n\n`;
+      case "table":
+        return `\n\n${table(el as HTMLTableElement)}\n\n`;
+    }
+    return BLOCKS.has(tag) ? `\n\n${content()}\n\n` : content();
+  };
+
+  const children = (el: Element, inContent: boolean): string => {
+    const parts = Array.from(el.childNodes).map((child) =>
+      convert(child, inContent)
+    );
+    // Drop the spaces whitespace-only text leaves around line breaks, but
+    // not the deeper indentation of nested lists
+    return parts
+      .join("")
+      .replace(/[ \t]+\n/g, "\n")
+      .replace(/\n (?=\S)/g, "\n");
+  };
+
+  // The innermost content-like element that holds most of the text
+  const bodyLength = textLength(document.body);
+  const root =
+    Array.from(
+      document.querySelectorAll(
+        "article, main, [role='main'], #content, .content, .post, .article"
+      )
+    )
+      .filter((el) => textLength(el) > bodyLength * 0.4)
+      .sort((a, b) => textLength(a) - textLength(b))[0] ?? document.body;
+
+  const title =
+    meta("meta[property='og:title']") ||
+    document.querySelector("h1")?.textContent?.trim() ||
+    document.title;
+  const byline =
+    meta("meta[name='author']") ||
+    document
+      .querySelector("[rel='author'], [itemprop='author'], .byline, .author")
+      ?.textContent?.trim()
+      .replace(/\s+/g, " ") ||
+    undefined;
+
+  const markdown = children(root, root !== document.body)
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  return { title, byline, url: location.href, markdown };
+}
+
+/**
+ * Extract the main content of a page as Markdown (see extractReadable)
+ */
+export async function readPageAsMarkdown(page: Page): Promise<ReadablePage> {
+  return page.evaluate(extractReadable);
+}
+
+/**
+ * Render a readable page as one Markdown document, headed by its title,
+ * byline and URL
+ */
+export function formatReadablePage(page: ReadablePage): string {
+  const header = [`# ${page.title}`];
+  if (page.byline) header.push(`By ${page.byline}`);
+  header.push(`Source: ${page.url}`);
+  return `${header.join("\n\n")}\n\n${page.markdown}`;
+}
+
+/**
+ * Cut a chunk of about `size` characters out of a Markdown document starting
+ * at `cursor`, ending on a paragraph (or else line) break where possible
+ */
+export function paginateMarkdown(
+  markdown: string,
+  cursor: number,
+  size: number
+): MarkdownChunk {
+  const start = Math.min(Math.max(cursor, 0), markdown.length);
+  let end = Math.min(start + size, markdown.length);
+
+  if (end < markdown.length) {
+    const half = start + Math.floor(size / 2);
+    const window = markdown.slice(half, end);
+    const paragraph = window.lastIndexOf("\n\n");
+    const line = window.lastIndexOf("\n");
+    const cut = paragraph >= 0 ? paragraph + 2 : line >= 0 ? line + 1 : -1;
+    if (cut >= 0) end = half + cut;
+  }
+
+  return {
+    content: markdown.slice(start, end),
+    start,
+    nextCursor: end < markdown.length ? end : undefined,
+    total: markdown.length
+  };
+}
@@ -0,0 +1,477 @@
+import type { Page } from "@cloudflare/puppeteer";
+
+/** R2 prefix for CDP session recordings and their screenshots */
+const RECORDINGS_PREFIX = "cdp/recordings/";
+
+/** Messages kept per recording; later traffic is counted but dropped */
+const MAX_RECORDED_MESSAGES = 10_000;
+
+/** Strings longer than this (screenshots, PDFs, bodies) are left out of recordings */
+const MAX_RECORDED_STRING_LENGTH = 16_384;
+
+/** How often a recording in progress is written to R2 */
+const RECORDING_FLUSH_INTERVAL_MS = 30_000;
+
+/** Placeholder for credentials and scripts left out of recordings */
+const REDACTED = "[redacted]";
+
+/** Placeholder trimLargeValues leaves for an oversized string */
+const OMITTED_PATTERN = /^\[omitted \d+ characters\]$/;
+
+/** Headers whose values are credentials */
+const SENSITIVE_HEADERS = new Set([
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+  "set-cookie"
+]);
+
+/** Lines of raw header text carrying a sensitive header */
+const SENSITIVE_HEADER_LINE =
+  /^(authorization|proxy-authorization|cookie|set-cookie):.*$/gim;
+
+/**
+ * Params of requests that set credentials, and how to redact them. Cookies,
+ * credential headers and request bodies anywhere in a message are redacted
+ * as well (see redactCredentials).
+ */
+const CREDENTIAL_PARAMS: Partial<
+  Record<string, (params: Record<string, unknown>) => Record<string, unknown>>
+> = {
+  "Network.setCookie": (params) => ({ ...params, value: REDACTED }),
+  // Extra headers are often API keys under names of their own
+  "Network.setExtraHTTPHeaders": (params) => ({
+    ...params,
+    headers: Object.fromEntries(
+      Object.keys((params.headers as Record<string, unknown>) ?? {}).map(
+        (name) => [name, REDACTED]
+      )
+    )
+  }),
+  "Fetch.continueWithAuth": (params) => ({
+    ...params,
+    authChallengeResponse: {
+      ...(params.authChallengeResponse as Record<string, unknown>),
+      username: REDACTED,
+      password: REDACTED
+    }
+  })
+};
+
+/**
+ * Params of requests that carry page scripts, and how to redact them, for
+ * recordings made with `redactScripts`
+ */
+const SCRIPT_PARAMS: Partial<
+  Record<string, (params: Record<string, unknown>) => Record<string, unknown>>
+> = {
+  "Runtime.evaluate": (params) => ({ ...params, expression: REDACTED }),
+  "Runtime.compileScript": (params) => ({ ...params, expression: REDACTED }),
+  "Runtime.callFunctionOn": (params) => ({
+    ...params,
+    functionDeclaration: REDACTED,
+    arguments: params.arguments && REDACTED
+  }),
+  "Page.addScriptToEvaluateOnNewDocument": (params) => ({
+    ...params,
+    source: REDACTED
+  })
+};
+
+/** Requests whose results are values computed by page scripts */
+const SCRIPT_RESULTS = new Set([
+  "Runtime.evaluate",
+  "Runtime.callFunctionOn",
+  "Runtime.awaitPromise"
+]);
+
+/**
+ * One entry in a CDP recording
+ */
+export interface RecordedMessage {
+  /** Milliseconds since the recording started */
+  t: number;
+  /** Client request, shim response or event, or a screenshot after navigating */
+  type: "request" | "response" | "event" | "screenshot";
+  /** The CDP message as sent over the wire (absent for screenshots) */
+  message?: Record<string, unknown>;
+  /** Screenshot file name, relative to the recording */
+  screenshot?: string;
+  /** Page URL when the screenshot was taken */
+  url?: string;
+}
+
+/**
+ * A recorded CDP session as stored in R2
+ */
+export interface CDPRecording {
+  id: string;
+  /** Browser Rendering session the client was connected to */
+  browserSessionId: string;
+  /** Target the shim created or resumed first, for remapping on replay */
+  initialTargetId: string;
+  startedAt: string;
+  endedAt?: string;
+  messages: RecordedMessage[];
+  /** Messages dropped after MAX_RECORDED_MESSAGES was reached */
+  droppedMessages: number;
+  /** Page scripts and their results were left out */
+  scriptsRedacted?: boolean;
+}
+
+/**
+ * Options for recording a CDP connection
+ */
+export interface CDPRecorderOptions {
+  /**
+   * Leave page scripts and the values they return out of the recording. Its
+   * replay then skips the requests that ran them.
+   */
+  redactScripts?: boolean;
+}
+
+/**
+ * Summary of a stored recording
+ */
+export interface CDPRecordingInfo {
+  id: string;
+  size: number;
+  uploaded: string;
+}
+
+/**
+ * Outcome of one replayed request next to what was recorded
+ */
+export interface CDPReplayStep {
+  id: number;
+  method: string;
+  sessionId?: string;
+  recorded?: { result?: unknown; error?: unknown };
+  replayed: { result?: unknown; error?: string };
+  /** Whether the request succeeded (or failed) in both runs */
+  ok: boolean;
+  durationMs: number;
+}
+
+/**
+ * Outcome of replaying a recording
+ */
+export interface CDPReplay {
+  steps: CDPReplayStep[];
+  /** Requests left unreplayed once the replay ran out of time */
+  skipped: number;
+}
+
+/**
+ * Replace oversized strings so recordings stay small enough to store and read
+ */
+function trimLargeValues(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value.length > MAX_RECORDED_STRING_LENGTH
+      ? `[omitted ${value.length} characters]`
+      : value;
+  }
+  if (Array.isArray(value)) return value.map(trimLargeValues);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, trimLargeValues(item)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Redact the values of credential headers in a header map or a list of
+ * `{ name, value }` entries
+ */
+function redactHeaders(headers: unknown): unknown {
+  if (Array.isArray(headers)) {
+    return headers.map((header) =>
+      SENSITIVE_HEADERS.has(String(header?.name).toLowerCase())
+        ? { ...header, value: REDACTED }
+        : header
+    );
+  }
+  if (!headers || typeof headers !== "object") return headers;
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [
+      name,
+      SENSITIVE_HEADERS.has(name.toLowerCase()) ? REDACTED : value
+    ])
+  );
+}
+
+/**
+ * Redact cookies, credential headers and request bodies wherever they occur
+ * in a message: in params, results and events such as
+ * Network.requestWillBeSent(ExtraInfo), Network.responseReceived(ExtraInfo)
+ * and Fetch.requestPaused
+ */
+function redactCredentials(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactCredentials);
+  if (!value || typeof value !== "object") return value;
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => {
+      switch (key) {
+        case "headers":
+        case "requestHeaders":
+        case "responseHeaders":
+          return [key, redactHeaders(item)];
+        case "headersText":
+        case "requestHeadersText":
+          return [
+            key,
+            typeof item === "string"
+              ? item.replace(SENSITIVE_HEADER_LINE, `$1: ${REDACTED}`)
+              : item
+          ];
+        case "cookie":
+          return [
+            key,
+            item && typeof item === "object"
+              ? { ...item, value: REDACTED }
+              : item
+          ];
+        case "cookies":
+          return [
+            key,
+            Array.isArray(item)
+              ? item.map((cookie) =>
+                  cookie && typeof cookie === "object"
+                    ? { ...cookie, value: REDACTED }
+                    : cookie
+                )
+              : item
+          ];
+        case "cookieLine":
+        case "postData":
+        case "postDataEntries":
+          return [key, item ? REDACTED : item];
+        default:
+          return [key, redactCredentials(item)];
+      }
+    })
+  );
+}
+
+/**
+ * Redact a RemoteObject computed by a page script, keeping its type
+ */
+function redactRemoteObject(object: Record<string, unknown>) {
+  return {
+    type: object.type,
+    subtype: object.subtype,
+    className: object.className,
+    value: "value" in object ? REDACTED : undefined,
+    description: object.description && REDACTED
+  };
+}
+
+/**
+ * Whether a recorded value holds anything left out of the recording
+ * (redacted or too long), so that it can't be sent again as recorded
+ */
+export function hasOmittedValues(value: unknown): boolean {
+  if (typeof value === "string") {
+    return value === REDACTED || OMITTED_PATTERN.test(value);
+  }
+  if (Array.isArray(value)) return value.some(hasOmittedValues);
+  if (value && typeof value === "object") {
+    return Object.values(value).some(hasOmittedValues);
+  }
+  return false;
+}
+
+/**
+ * Records the traffic of one CDP connection and stores it in R2. The
+ * recording is written every RECORDING_FLUSH_INTERVAL_MS while messages come
+ * in, so a connection that never closes cleanly still leaves most of it.
+ */
+export class CDPRecorder {
+  private readonly recording: CDPRecording;
+  private readonly started = Date.now();
+  private screenshots = 0;
+  /** Script requests awaiting a response, by flat session and id */
+  private readonly scriptRequests = new Set<string>();
+  private flushTimer?: ReturnType<typeof setTimeout>;
+  /** The latest write to R2, so writes land in order */
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly bucket: R2Bucket,
+    browserSessionId: string,
+    initialTargetId: string,
+    private readonly options: CDPRecorderOptions = {}
+  ) {
+    this.recording = {
+      id: crypto.randomUUID(),
+      browserSessionId,
+      initialTargetId,
+      startedAt: new Date(this.started).toISOString(),
+      messages: [],
+      droppedMessages: 0,
+      scriptsRedacted: options.redactScripts || undefined
+    };
+  }
+
+  get id(): string {
+    return this.recording.id;
+  }
+
+  /**
+   * Add a message to the recording, leaving out credentials (and, with
+   * `redactScripts`, page scripts and their results)
+   */
+  record(type: RecordedMessage["type"], message: Record<string, unknown>) {
+    this.push({
+      t: Date.now() - this.started,
+      type,
+      message: trimLargeValues(this.redact(type, message)) as Record<
+        string,
+        unknown
+      >
+    });
+  }
+
+  /**
+   * Store a screenshot of the page next to the recording
+   */
+  async screenshot(page: Page): Promise<void> {
+    const name = `screenshot-${++this.screenshots}.jpg`;
+    const t = Date.now() - this.started;
+    const image = await page.screenshot({ type: "jpeg", quality: 60 });
+
+    await this.bucket.put(
+      `${RECORDINGS_PREFIX}${this.recording.id}/${name}`,
+      image,
+      { httpMetadata: { contentType: "image/jpeg" } }
+    );
+    this.push({ t, type: "screenshot", screenshot: name, url: page.url() });
+  }
+
+  /**
+   * Finish the recording and write it to R2, replacing any earlier write
+   */
+  async save(): Promise<void> {
+    clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+    this.recording.endedAt = new Date().toISOString();
+    await this.write();
+  }
+
+  private write(): Promise<void> {
+    const body = JSON.stringify(this.recording);
+    const write = this.writing.then(async () => {
+      await this.bucket.put(
+        `${RECORDINGS_PREFIX}${this.recording.id}.json`,
+        body,
+        { httpMetadata: { contentType: "application/json" } }
+      );
+    });
+    this.writing = write.catch(() => {});
+    return write;
+  }
+
+  private redact(
+    type: RecordedMessage["type"],
+    message: Record<string, unknown>
+  ): Record<string, unknown> {
+    const key = `${message.sessionId ?? ""}:${message.id}`;
+    let redacted = message;
+
+    if (type === "request") {
+      const method = message.method as string;
+      const params = message.params as Record<string, unknown> | undefined;
+      const redactParams =
+        CREDENTIAL_PARAMS[method] ??
+        (this.options.redactScripts ? SCRIPT_PARAMS[method] : undefined);
+      if (redactParams && params) {
+        redacted = { ...message, params: redactParams(params) };
+      }
+      if (this.options.redactScripts && SCRIPT_RESULTS.has(method)) {
+        this.scriptRequests.add(key);
+      }
+    } else if (type === "response" && this.scriptRequests.delete(key)) {
+      const result = message.result as
+        | { result?: Record<string, unknown> }
+        | undefined;
+      if (result?.result) {
+        redacted = {
+          ...message,
+          result: { ...result, result: redactRemoteObject(result.result) }
+        };
+      }
+    }
+
+    return redactCredentials(redacted) as Record<string, unknown>;
+  }
+
+  private push(entry: RecordedMessage) {
+    if (this.recording.messages.length >= MAX_RECORDED_MESSAGES) {
+      this.recording.droppedMessages++;
+      return;
+    }
+    this.recording.messages.push(entry);
+
+    if (!this.flushTimer && !this.recording.endedAt) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = undefined;
+        this.write().catch((err) =>
+          console.error("[CDP] Error writing recording:", err)
+        );
+      }, RECORDING_FLUSH_INTERVAL_MS);
+    }
+  }
+}
+
+/**
+ * List stored recordings, newest first
+ */
+export async function listCDPRecordings(
+  bucket: R2Bucket
+): Promise<CDPRecordingInfo[]> {
+  const recordings: CDPRecordingInfo[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const listing = await bucket.list({
+      prefix: RECORDINGS_PREFIX,
+      delimiter: "/",
+      cursor
+    });
+    for (const object of listing.objects) {
+      if (!object.key.endsWith(".json")) continue;
+      recordings.push({
+        id: object.key.slice(RECORDINGS_PREFIX.length, -".json".length),
+        size: object.size,
+        uploaded: object.uploaded.toISOString()
+      });
+    }
+    cursor = listing.truncated ? listing.cursor : undefined;
+  } while (cursor);
+
+  return recordings.sort((a, b) => b.uploaded.localeCompare(a.uploaded));
+}
+
+/**
+ * Load a stored recording
+ */
+export async function getCDPRecording(
+  bucket: R2Bucket,
+  id: string
+): Promise<CDPRecording | null> {
+  const object = await bucket.get(`${RECORDINGS_PREFIX}${id}.json`);
+  return object ? object.json<CDPRecording>() : null;
+}
+
+/**
+ * Load a screenshot stored with a recording
+ */
+export async function getCDPRecordingScreenshot(
+  bucket: R2Bucket,
+  id: string,
+  name: string
+): Promise<R2ObjectBody | null> {
+  return bucket.get(`${RECORDINGS_PREFIX}${id}/${name}`);
+}
@@ -0,0 +1,96 @@
+import { BROWSER_SCREENSHOTS_PREFIX } from "../config";
+
+/**
+ * Where a stored screenshot came from
+ */
+export interface ScreenshotInfo {
+  /** Agent or session that took it */
+  owner: string;
+  /** Page it shows */
+  url: string;
+}
+
+/**
+ * R2 key of a stored screenshot, also used as its artifact reference
+ */
+export function screenshotKey(id: string): string {
+  return `${BROWSER_SCREENSHOTS_PREFIX}${id}.jpg`;
+}
+
+/**
+ * Admin API path that serves a stored screenshot
+ */
+export function screenshotPath(id: string): string {
+  return `/api/admin/screenshots/${id}`;
+}
+
+/**
+ * Result of a tool that stored screenshots: its text, as MCP content, and the
+ * IDs of the screenshots to attach as images
+ */
+export interface ScreenshotToolResult {
+  content: { type: "text"; text: string }[];
+  screenshots: string[];
+}
+
+export function isScreenshotToolResult(
+  output: unknown
+): output is ScreenshotToolResult {
+  return (
+    typeof output === "object" &&
+    output !== null &&
+    Array.isArray((output as ScreenshotToolResult).content) &&
+    Array.isArray((output as ScreenshotToolResult).screenshots)
+  );
+}
+
+/**
+ * Store a JPEG screenshot in R2
+ *
+ * @returns The screenshot's ID
+ */
+export async function storeScreenshot(
+  bucket: R2Bucket,
+  image: Uint8Array,
+  info: ScreenshotInfo
+): Promise<string> {
+  const id = crypto.randomUUID();
+  await bucket.put(screenshotKey(id), image, {
+    httpMetadata: { contentType: "image/jpeg" },
+    customMetadata: { owner: info.owner, url: info.url }
+  });
+  return id;
+}
+
+/**
+ * Load a stored screenshot
+ */
+export async function getScreenshot(
+  bucket: R2Bucket,
+  id: string
+): Promise<R2ObjectBody | null> {
+  return bucket.get(screenshotKey(id));
+}
+
+/**
+ * Load stored screenshots so they can be shown to a model or an MCP client as
+ * images
+ *
+ * @param owner Agent or session the screenshots must have been taken by
+ * @returns Base64 JPEGs, leaving out screenshots that no longer exist or were
+ * taken by someone else
+ */
+export async function loadScreenshots(
+  bucket: R2Bucket,
+  ids: string[],
+  owner: string
+): Promise<string[]> {
+  const images = await Promise.all(
+    [...new Set(ids)].map(async (id) => {
+      const object = await getScreenshot(bucket, id);
+      if (!object || object.customMetadata?.owner !== owner) return null;
+      return Buffer.from(await object.arrayBuffer()).toString("base64");
+    })
+  );
+  return images.filter((image): image is string => !!image);
+}
@@ -0,0 +1,168 @@
+/** R2 prefix for stored performance traces */
+const TRACES_PREFIX = "cdp/traces/";
+
+/** Main-thread tasks longer than this block input (Total Blocking Time) */
+const LONG_TASK_MS = 50;
+
+/**
+ * Trace categories summarizeWebVitals needs
+ */
+export const WEB_VITALS_TRACE_CATEGORIES = [
+  "__metadata",
+  "loading",
+  "blink.user_timing",
+  "devtools.timeline",
+  "disabled-by-default-devtools.timeline",
+  "toplevel"
+];
+
+/**
+ * One event of a Chrome trace (timestamps and durations in microseconds)
+ */
+export interface TraceEvent {
+  name: string;
+  cat: string;
+  ph: string;
+  ts: number;
+  dur?: number;
+  pid: number;
+  tid: number;
+  args?: {
+    frame?: string;
+    data?: Record<string, unknown>;
+  };
+}
+
+/**
+ * Page load timings derived from a trace, in milliseconds from navigation
+ * start. Metrics the trace has no events for are left out.
+ */
+export interface WebVitals {
+  url?: string;
+  firstContentfulPaintMs?: number;
+  largestContentfulPaintMs?: number;
+  domContentLoadedMs?: number;
+  loadMs?: number;
+  cumulativeLayoutShift: number;
+  totalBlockingTimeMs: number;
+  longTasks: number;
+}
+
+/**
+ * Store a trace in R2 as a `{ traceEvents }` JSON file, the format Chrome
+ * DevTools and Perfetto open. `owner` is the agent or session that recorded
+ * it, and the only one it is served to.
+ *
+ * @returns The trace's ID
+ */
+export async function storeTrace(
+  bucket: R2Bucket,
+  traceEvents: unknown[],
+  owner: string
+): Promise<string> {
+  const id = crypto.randomUUID();
+  await bucket.put(
+    `${TRACES_PREFIX}${id}.json`,
+    JSON.stringify({ traceEvents }),
+    {
+      httpMetadata: { contentType: "application/json" },
+      customMetadata: { owner }
+    }
+  );
+  return id;
+}
+
+/**
+ * Load a stored trace
+ */
+export async function getTrace(
+  bucket: R2Bucket,
+  id: string
+): Promise<R2ObjectBody | null> {
+  return bucket.get(`${TRACES_PREFIX}${id}.json`);
+}
+
+/**
+ * Cumulative Layout Shift: the largest burst of unexpected layout shifts,
+ * where a burst ends after a 1s gap or 5s in total
+ */
+function cumulativeLayoutShift(shifts: TraceEvent[]): number {
+  let worst = 0;
+  let current = 0;
+  let windowStart = 0;
+  let previous = 0;
+
+  for (const shift of shifts) {
+    const data = shift.args?.data ?? {};
+    if (data.had_recent_input) continue;
+    const score = Number(data.weighted_score_delta ?? data.score ?? 0);
+
+    if (shift.ts - previous > 1_000_000 || shift.ts - windowStart > 5_000_000) {
+      current = 0;
+      windowStart = shift.ts;
+    }
+    current += score;
+    previous = shift.ts;
+    worst = Math.max(worst, current);
+  }
+  return worst;
+}
+
+/**
+ * Summarize Core Web Vitals for the first main-frame navigation in a trace
+ * recorded with WEB_VITALS_TRACE_CATEGORIES
+ */
+export function summarizeWebVitals(events: TraceEvent[]): WebVitals {
+  const navigation = events.find(
+    (e) =>
+      e.name === "navigationStart" &&
+      e.args?.data?.isLoadingMainFrame === true &&
+      String(e.args.data.documentLoaderURL ?? "").startsWith("http")
+  );
+  if (!navigation) {
+    return { cumulativeLayoutShift: 0, totalBlockingTimeMs: 0, longTasks: 0 };
+  }
+
+  const frame = navigation.args?.frame;
+  const start = navigation.ts;
+  const inFrame = (name: string) =>
+    events.filter(
+      (e) => e.name === name && e.ts >= start && e.args?.frame === frame
+    );
+  const sinceStart = (event: TraceEvent | undefined) =>
+    event && Math.round((event.ts - start) / 1000);
+  const mainFrameMark = (name: string) =>
+    events.find(
+      (e) => e.name === name && e.ts >= start && e.args?.data?.isMainFrame
+    );
+
+  const fcp = inFrame("firstContentfulPaint")[0];
+  const candidates = inFrame("largestContentfulPaint::Candidate");
+  const lcp = candidates[candidates.length - 1];
+
+  // Blocking time counts main-thread tasks after the first paint
+  const longTasks = events.filter(
+    (e) =>
+      e.name === "RunTask" &&
+      e.pid === navigation.pid &&
+      e.tid === navigation.tid &&
+      e.ts >= (fcp?.ts ?? start) &&
+      (e.dur ?? 0) / 1000 > LONG_TASK_MS
+  );
+  const totalBlockingTimeMs = longTasks.reduce(
+    (total, task) => total + (task.dur ?? 0) / 1000 - LONG_TASK_MS,
+    0
+  );
+
+  return {
+    url: String(navigation.args?.data?.documentLoaderURL),
+    firstContentfulPaintMs: sinceStart(fcp),
+    largestContentfulPaintMs: sinceStart(lcp),
+    domContentLoadedMs: sinceStart(mainFrameMark("MarkDOMContent")),
+    loadMs: sinceStart(mainFrameMark("MarkLoad")),
+    cumulativeLayoutShift:
+      Math.round(cumulativeLayoutShift(inFrame("LayoutShift")) * 1000) / 1000,
+    totalBlockingTimeMs: Math.round(totalBlockingTimeMs),
+    longTasks: longTasks.length
+  };
+}
@@ -11,5 +11,53 @@ export const STARTUP_TIMEOUT_MS = 180_000;
 /** Mount path for R2 persistent storage inside the container */
 export const R2_MOUNT_PATH = "/data/moltbot";
 
+/** OpenAI model used by the Chat agent and the extract tool */
+export const OPENAI_MODEL = "gpt-4o-2024-11-20";
+
 /** R2 bucket name for persistent storage */
 export const R2_BUCKET_NAME = "moltbot-data";
+
+/** Keep-alive window for disconnected CDP browser sessions (10 minutes, the Browser Rendering maximum) */
+export const CDP_KEEP_ALIVE_MS = 600_000;
+
+/** Default lifetime of a CDP access ticket (1 hour) */
+export const CDP_TICKET_TTL_SECONDS = 3600;
+
+/** Longest lifetime an admin can give a CDP access ticket (24 hours) */
+export const CDP_TICKET_MAX_TTL_SECONDS = 86_400;
+
+/** Lifetime of the tickets embedded in webSocketDebuggerUrl responses (5 minutes) */
+export const CDP_DEBUGGER_URL_TTL_SECONDS = 300;
+
+/** Default cap on concurrent Browser Rendering browsers used by /cdp */
+export const CDP_MAX_BROWSERS = 3;
+
+/** Connections allowed to wait for a free browser before new ones are rejected */
+export const CDP_MAX_QUEUED_CONNECTIONS = 10;
+
+/** Maximum time a connection waits in line for a free browser (30 seconds) */
+export const CDP_QUEUE_TIMEOUT_MS = 30_000;
+
+/** Default time a connected CDP session may sit idle before it is closed (5 minutes) */
+export const CDP_IDLE_TIMEOUT_MS = 300_000;
+
+/** R2 prefix under which files downloaded by browsers are stored */
+export const BROWSER_DOWNLOADS_PREFIX = "downloads/";
+
+/** Largest browser download stored in R2 (50 MB) */
+export const BROWSER_MAX_DOWNLOAD_BYTES = 50 * 1024 * 1024;
+
+/** R2 prefix under which screenshots taken by the agents' browser tools are stored */
+export const BROWSER_SCREENSHOTS_PREFIX = "screenshots/";
+
+/** Most steps accepted by one POST /cdp/run request */
+export const CDP_RUN_MAX_STEPS = 100;
+
+/** Longest a POST /cdp/run step may wait, for a pause or an event (30 seconds) */
+export const CDP_RUN_MAX_WAIT_MS = 30_000;
+
+/** Traces larger than this (as JSON) are stored in R2 instead of sent as Tracing.dataCollected events */
+export const CDP_TRACE_INLINE_BYTES = 512 * 1024;
+
+/** How long the agents' interactive browser stays open without being used (5 minutes) */
+export const BROWSER_TOOL_IDLE_TIMEOUT_MS = 300_000;
@@ -0,0 +1,262 @@
+import { DurableObject } from "cloudflare:workers";
+import type { AgentEnv } from "../types";
+import {
+  CDP_IDLE_TIMEOUT_MS,
+  CDP_MAX_BROWSERS,
+  CDP_MAX_QUEUED_CONNECTIONS,
+  CDP_QUEUE_TIMEOUT_MS
+} from "../config";
+
+/** How often leases are checked for idleness */
+const REAP_INTERVAL_MS = 60_000;
+
+/** Extra idle time allowed before reaping, since activity is reported in batches */
+const REAP_GRACE_MS = 60_000;
+
+/**
+ * A slot held by one browser
+ */
+export interface BrowserLease {
+  id: string;
+  /** Browser Rendering session, once the browser has launched */
+  browserSessionId?: string;
+  /** Credential or ticket the browser belongs to; only it may resume the browser */
+  owner?: string;
+  acquiredAt: number;
+  lastActivity: number;
+}
+
+/**
+ * Current browser usage, as reported by BrowserCoordinator.usage()
+ */
+export interface BrowserUsage {
+  active: number;
+  max: number;
+  queued: number;
+  maxQueued: number;
+  idleTimeoutMs: number;
+  leases: BrowserLease[];
+}
+
+interface Waiter {
+  resolve: (leaseId: string) => void;
+  reject: (err: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Read a positive number from an env var, falling back to a default
+ */
+function numberFromEnv(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * How long a CDP session may sit idle before it is closed
+ */
+export function browserIdleTimeoutMs(env: AgentEnv): number {
+  return numberFromEnv(env.CDP_IDLE_TIMEOUT_MS, CDP_IDLE_TIMEOUT_MS);
+}
+
+/**
+ * Browser Coordinator
+ * Global gate for Browser Rendering: caps concurrent browsers, queues excess
+ * connections and reaps leases whose browsers went quiet.
+ */
+export class BrowserCoordinator extends DurableObject<AgentEnv> {
+  private leases = new Map<string, BrowserLease>();
+  private waiters: Waiter[] = [];
+
+  constructor(ctx: DurableObjectState, env: AgentEnv) {
+    super(ctx, env);
+    ctx.blockConcurrencyWhile(async () => {
+      const stored = await ctx.storage.get<BrowserLease[]>("leases");
+      for (const lease of stored ?? []) this.leases.set(lease.id, lease);
+    });
+  }
+
+  private get maxBrowsers(): number {
+    return numberFromEnv(this.env.CDP_MAX_BROWSERS, CDP_MAX_BROWSERS);
+  }
+
+  private get idleTimeoutMs(): number {
+    return browserIdleTimeoutMs(this.env);
+  }
+
+  /**
+   * RPC Method: Acquire a browser slot, waiting in line when all are taken
+   * @throws Error when the queue is full or the wait times out
+   */
+  async acquire(): Promise<string> {
+    if (this.leases.size < this.maxBrowsers && this.waiters.length === 0) {
+      return this.grant();
+    }
+
+    if (this.waiters.length >= CDP_MAX_QUEUED_CONNECTIONS) {
+      throw new Error(
+        `Browser limit reached: ${this.leases.size}/${this.maxBrowsers} browsers in use and ${this.waiters.length} connections waiting`
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.waiters = this.waiters.filter((w) => w !== waiter);
+          reject(
+            new Error(
+              `Timed out after ${CDP_QUEUE_TIMEOUT_MS / 1000}s waiting for a free browser (${this.maxBrowsers} in use)`
+            )
+          );
+        }, CDP_QUEUE_TIMEOUT_MS)
+      };
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * RPC Method: Record which browser a lease belongs to, and whose it is
+   */
+  async attach(leaseId: string, browserSessionId: string, owner: string) {
+    const lease = this.leases.get(leaseId);
+    if (!lease) return false;
+
+    lease.browserSessionId = browserSessionId;
+    lease.owner = owner;
+    lease.lastActivity = Date.now();
+    await this.persist();
+    return true;
+  }
+
+  /**
+   * RPC Method: Get the lease of a running browser, registering one if the
+   * browser was launched before its lease was reaped
+   */
+  async adopt(browserSessionId: string, owner: string): Promise<string> {
+    for (const lease of this.leases.values()) {
+      if (lease.browserSessionId === browserSessionId) {
+        lease.lastActivity = Date.now();
+        await this.persist();
+        return lease.id;
+      }
+    }
+
+    // The browser exists either way, so it is counted even above the limit
+    const leaseId = await this.grant();
+    await this.attach(leaseId, browserSessionId, owner);
+    return leaseId;
+  }
+
+  /**
+   * RPC Method: Owners of the running browsers, by Browser Rendering session.
+   * Browsers whose leases were reaped aren't known any more.
+   */
+  async owners(): Promise<Record<string, string>> {
+    const owners: Record<string, string> = {};
+    for (const lease of this.leases.values()) {
+      if (lease.browserSessionId && lease.owner) {
+        owners[lease.browserSessionId] = lease.owner;
+      }
+    }
+    return owners;
+  }
+
+  /**
+   * RPC Method: Report activity on a lease
+   * @returns false if the lease has been reaped
+   */
+  async touch(leaseId: string) {
+    const lease = this.leases.get(leaseId);
+    if (!lease) return false;
+
+    lease.lastActivity = Date.now();
+    await this.persist();
+    return true;
+  }
+
+  /**
+   * RPC Method: Give a browser slot back
+   */
+  async release(leaseId: string) {
+    if (!this.leases.delete(leaseId)) return;
+    await this.persist();
+    await this.wake();
+  }
+
+  /**
+   * RPC Method: Current usage
+   */
+  async usage(): Promise<BrowserUsage> {
+    return {
+      active: this.leases.size,
+      max: this.maxBrowsers,
+      queued: this.waiters.length,
+      maxQueued: CDP_MAX_QUEUED_CONNECTIONS,
+      idleTimeoutMs: this.idleTimeoutMs,
+      leases: [...this.leases.values()]
+    };
+  }
+
+  /**
+   * Reap leases that have been idle past the timeout. Their browsers are
+   * closed by the connection that owns them, or by Browser Rendering once
+   * its keep-alive runs out when that connection is gone.
+   */
+  async alarm() {
+    const cutoff = Date.now() - this.idleTimeoutMs - REAP_GRACE_MS;
+    for (const [id, lease] of this.leases) {
+      if (lease.lastActivity < cutoff) {
+        console.log("[BrowserCoordinator] Reaping idle lease:", id);
+        this.leases.delete(id);
+      }
+    }
+
+    await this.persist();
+    await this.wake();
+    if (this.leases.size > 0) {
+      await this.ctx.storage.setAlarm(Date.now() + REAP_INTERVAL_MS);
+    }
+  }
+
+  private async grant(): Promise<string> {
+    const now = Date.now();
+    const lease: BrowserLease = {
+      id: crypto.randomUUID(),
+      acquiredAt: now,
+      lastActivity: now
+    };
+    this.leases.set(lease.id, lease);
+    await this.persist();
+
+    if (!(await this.ctx.storage.getAlarm())) {
+      await this.ctx.storage.setAlarm(now + REAP_INTERVAL_MS);
+    }
+    return lease.id;
+  }
+
+  /**
+   * Hand freed slots to connections waiting in line
+   */
+  private async wake() {
+    while (this.waiters.length > 0 && this.leases.size < this.maxBrowsers) {
+      const waiter = this.waiters.shift()!;
+      clearTimeout(waiter.timer);
+      waiter.resolve(await this.grant());
+    }
+  }
+
+  private async persist() {
+    await this.ctx.storage.put("leases", [...this.leases.values()]);
+  }
+}
+
+/**
+ * Get the single global BrowserCoordinator instance
+ */
+export function getBrowserCoordinator(env: AgentEnv) {
+  return env.BrowserCoordinator.get(
+    env.BrowserCoordinator.idFromName("global")
+  );
+}
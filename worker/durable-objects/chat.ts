@@ -15,19 +15,24 @@ import {
     type ToolSet
 } from "ai";
 import { openai } from "@ai-sdk/openai";
-import { processToolCalls, cleanupMessages } from "../utils";
+import {
+    processToolCalls,
+    cleanupMessages,
+    withToolResultImages
+} from "../utils";
 import { tools, executions } from "../tools";
 // import { env } from "cloudflare:workers";
 
-const model = openai("gpt-4o-2024-11-20");
+const model = openai(OPENAI_MODEL);
 // Cloudflare AI Gateway
 // const openai = createOpenAI({
 //   apiKey: env.OPENAI_API_KEY,
 //   baseURL: env.GATEWAY_BASE_URL,
 // });
 
-import { MOLTBOT_PORT } from "../config";
+import { MOLTBOT_PORT, OPENAI_MODEL } from "../config";
 import { getSandbox } from "@cloudflare/sandbox";
+import { AgentBrowser } from "../cdp";
 import { ensureMoltbotGateway } from "../gateway";
 import type { AgentEnv } from "../types";
 import { Hono } from "hono";
@@ -55,6 +60,18 @@ export class Chat extends AIChatAgent<AgentEnv> {
         return this._sandbox;
     }
 
+    private _browser: AgentBrowser | undefined;
+
+    /**
+     * The browser page this chat keeps between controlBrowser calls
+     */
+    getBrowser() {
+        if (!this._browser) {
+            this._browser = new AgentBrowser(this.env.BROWSER);
+        }
+        return this._browser;
+    }
+
 
 
     // ... existing code ...
@@ -220,11 +237,17 @@ export class Chat extends AIChatAgent<AgentEnv> {
         //   "https://path-to-mcp-server/sse"
         // );
 
-        // Collect all tools, including MCP tools
-        const allTools = {
-            ...tools,
-            ...this.mcp.getAITools()
-        };
+        // Collect all tools, including MCP tools. Images in their results are
+        // shown to the model in the turn they come back; the stored history
+        // keeps only the text linking to them.
+        const allTools = withToolResultImages(
+            {
+                ...tools,
+                ...this.mcp.getAITools()
+            },
+            this.env.MOLTBOT_BUCKET,
+            this.name
+        );
 
         const stream = createUIMessageStream({
             execute: async ({ writer }) => {
@@ -8,8 +8,11 @@ import {
   readMoltbotConfigDef,
   getContainerLogsDef,
   inspectContainerDef,
-  browsePageDef
+  browsePageDef,
+  controlBrowserDef,
+  extractDef
 } from "./tools";
+import { AgentBrowser, isScreenshotToolResult, loadScreenshots } from "./cdp";
 import { getSandbox } from "@cloudflare/sandbox";
 import { z } from "zod";
 
@@ -67,6 +70,45 @@ export class MoltbotMcp extends McpAgent<AgentEnv, State, HonoVariables> {
     return this._sandbox;
   }
 
+  private _browser: AgentBrowser | undefined;
+
+  /**
+   * The browser page this MCP session keeps between control_browser calls
+   */
+  getBrowser() {
+    if (!this._browser) {
+      this._browser = new AgentBrowser(this.env.BROWSER);
+    }
+    return this._browser;
+  }
+
+  /**
+   * MCP content for a tool result, with the screenshots it stored attached as
+   * images
+   */
+  private async toolContent(result: unknown) {
+    if (!isScreenshotToolResult(result)) {
+      const text = typeof result === "string" ? result : JSON.stringify(result);
+      return { content: [{ type: "text" as const, text }] };
+    }
+
+    const images = await loadScreenshots(
+      this.env.MOLTBOT_BUCKET,
+      result.screenshots,
+      this.name
+    );
+    return {
+      content: [
+        ...result.content,
+        ...images.map((data) => ({
+          type: "image" as const,
+          data,
+          mimeType: "image/jpeg"
+        }))
+      ]
+    };
+  }
+
   async init() {
     // Register tools using raw definitions
     // Note: McpServer from sdk should handle Zod schemas if using proper register tool method, 
@@ -81,7 +123,7 @@ export class MoltbotMcp extends McpAgent<AgentEnv, State, HonoVariables> {
       def: { description: string; parameters: any; execute: (args: any) => Promise<any> }
     ) => {
       this.server.tool(name, def.description, def.parameters, async (args: any) => {
-        return def.execute(args);
+        return this.toolContent(await def.execute(args));
       });
     };
 
@@ -92,6 +134,8 @@ export class MoltbotMcp extends McpAgent<AgentEnv, State, HonoVariables> {
     register("get_container_logs", getContainerLogsDef);
     register("inspect_container", inspectContainerDef);
     register("browse_page", browsePageDef);
+    register("control_browser", controlBrowserDef);
+    register("extract", extractDef);
 
     // Orchestration Tools (Proxy to Registry)
     this.server.tool(
@@ -1,6 +1,12 @@
 import { Hono } from "hono";
 import type { AgentEnv, HonoVariables } from "../types";
-import { createAccessMiddleware } from "../auth";
+import {
+  createAccessMiddleware,
+  listCDPTickets,
+  mintCDPTicket,
+  revokeCDPTicket,
+  type CDPTicketOptions
+} from "../auth";
 import {
   ensureMoltbotGateway,
   findExistingMoltbotProcess,
@@ -9,6 +15,14 @@ import {
   waitForProcess
 } from "../gateway";
 import { R2_MOUNT_PATH } from "../config";
+import {
+  getCDPRecording,
+  getCDPRecordingScreenshot,
+  getScreenshot,
+  listCDPRecordings
+} from "../cdp";
+import { replayCDPRecording } from "./cdp";
+import { getBrowserCoordinator } from "../durable-objects/browser-coordinator";
 import { getSandbox } from "@cloudflare/sandbox";
 
 // CLI commands can take 10-15 seconds to complete due to WebSocket connection overhead
@@ -331,6 +345,171 @@ adminApi.post("/gateway/restart", async (c) => {
   }
 });
 
+// GET /api/admin/cdp/tickets - List unexpired CDP access tickets
+adminApi.get("/cdp/tickets", async (c) => {
+  try {
+    const tickets = await listCDPTickets(c.env);
+    return c.json({ tickets });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// POST /api/admin/cdp/tickets - Mint a CDP access ticket
+// Body: { ttlSeconds?, origins?, methods?, sub?, session?, label? }
+adminApi.post("/cdp/tickets", async (c) => {
+  let options: CDPTicketOptions;
+  try {
+    options = await c.req.json<CDPTicketOptions>();
+  } catch {
+    options = {};
+  }
+
+  try {
+    const { ticket, claims } = await mintCDPTicket(c.env, options);
+
+    // Ready-made connection URL for clients that take a WebSocket URL
+    const url = new URL(c.req.url);
+    const wsProtocol = url.protocol === "https:" ? "wss:" : "ws:";
+
+    return c.json({
+      id: claims.jti,
+      ticket,
+      expiresAt: new Date(claims.exp * 1000).toISOString(),
+      origins: claims.origins,
+      methods: claims.methods,
+      sub: claims.sub,
+      session: claims.session,
+      webSocketDebuggerUrl: `${wsProtocol}//${url.host}/cdp?ticket=${encodeURIComponent(ticket)}`
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// DELETE /api/admin/cdp/tickets/:id - Revoke a CDP access ticket
+adminApi.delete("/cdp/tickets/:id", async (c) => {
+  const id = c.req.param("id");
+
+  try {
+    const revoked = await revokeCDPTicket(c.env, id);
+    if (!revoked) {
+      return c.json({ error: "Ticket not found or already expired" }, 404);
+    }
+    return c.json({ success: true, id });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/cdp/usage - Browsers in use, queued connections and limits
+adminApi.get("/cdp/usage", async (c) => {
+  try {
+    const usage = await getBrowserCoordinator(c.env).usage();
+    return c.json(usage);
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/cdp/recordings - List recorded CDP sessions
+adminApi.get("/cdp/recordings", async (c) => {
+  try {
+    const recordings = await listCDPRecordings(c.env.MOLTBOT_BUCKET);
+    return c.json({ recordings });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
+// GET /api/admin/cdp/recordings/:id - Download a recording as JSON
+adminApi.get("/cdp/recordings/:id", async (c) => {
+  const id = c.req.param("id");
+  const recording = await getCDPRecording(c.env.MOLTBOT_BUCKET, id);
+  if (!recording) {
+    return c.json({ error: "Recording not found" }, 404);
+  }
+
+  c.header("Content-Disposition", `attachment; filename="cdp-${id}.json"`);
+  return c.json(recording);
+});
+
+// GET /api/admin/cdp/recordings/:id/:screenshot - Download a recording's screenshot
+adminApi.get("/cdp/recordings/:id/:screenshot", async (c) => {
+  const object = await getCDPRecordingScreenshot(
+    c.env.MOLTBOT_BUCKET,
+    c.req.param("id"),
+    c.req.param("screenshot")
+  );
+  if (!object) {
+    return c.json({ error: "Screenshot not found" }, 404);
+  }
+
+  return new Response(object.body, {
+    headers: { "Content-Type": "image/jpeg" }
+  });
+});
+
+// GET /api/admin/screenshots/:id - A screenshot taken by browse_page
+adminApi.get("/screenshots/:id", async (c) => {
+  const object = await getScreenshot(c.env.MOLTBOT_BUCKET, c.req.param("id"));
+  if (!object) {
+    return c.json({ error: "Screenshot not found" }, 404);
+  }
+
+  return new Response(object.body, {
+    headers: {
+      "Content-Type": "image/jpeg",
+      "Cache-Control": "private, max-age=86400"
+    }
+  });
+});
+
+// POST /api/admin/cdp/recordings/:id/replay - Replay a recording against a fresh browser
+// Body: { preserveTiming? }. Requests left after two minutes are counted as `skipped`.
+adminApi.post("/cdp/recordings/:id/replay", async (c) => {
+  const id = c.req.param("id");
+  if (!c.env.BROWSER) {
+    return c.json({ error: "Browser Rendering not configured" }, 503);
+  }
+
+  const recording = await getCDPRecording(c.env.MOLTBOT_BUCKET, id);
+  if (!recording) {
+    return c.json({ error: "Recording not found" }, 404);
+  }
+
+  let options: { preserveTiming?: boolean };
+  try {
+    options = await c.req.json();
+  } catch {
+    options = {};
+  }
+
+  try {
+    const { steps, skipped } = await replayCDPRecording(
+      c.env,
+      recording,
+      options
+    );
+    const failures = steps.filter((step) => !step.ok).length;
+    return c.json({ id, steps, failures, skipped });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return c.json({ error: errorMessage }, 500);
+  }
+});
+
 // Mount admin API routes under /admin
 api.route("/admin", adminApi);
 
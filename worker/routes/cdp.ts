@@ -1,7 +1,52 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import type { AgentEnv } from "../types";
-import puppeteer, { type Browser, type Page } from "@cloudflare/puppeteer";
-import { timingSafeEqual } from "crypto"; // Use Node crypto for timingSafeEqual
+import {
+  CDP_DEBUGGER_URL_TTL_SECONDS,
+  CDP_KEEP_ALIVE_MS,
+  CDP_RUN_MAX_STEPS,
+  CDP_RUN_MAX_WAIT_MS,
+  CDP_TRACE_INLINE_BYTES
+} from "../config";
+import {
+  isMethodAllowed,
+  isOriginAllowed,
+  isSessionAllowed,
+  mintCDPTicket,
+  secretsEqual,
+  verifyCDPTicket,
+  type CDPTicketClaims
+} from "../auth";
+import {
+  CDPRecorder,
+  downloadsPrefix,
+  getTrace,
+  hasOmittedValues,
+  interceptDownloads,
+  resolveKey,
+  storeTrace,
+  withKnownKey,
+  type CDPRecording,
+  type CDPReplay,
+  type CDPReplayStep
+} from "../cdp";
+import {
+  browserIdleTimeoutMs,
+  getBrowserCoordinator
+} from "../durable-objects/browser-coordinator";
+import puppeteer, {
+  type Browser,
+  type BrowserContext,
+  type CDPSession as PuppeteerCDPSession,
+  type ConsoleMessage,
+  type CookieParam,
+  type DeleteCookiesRequest,
+  type HTTPRequest,
+  type HTTPResponse,
+  type JSHandle,
+  type KeyInput,
+  type MouseButton,
+  type Page
+} from "@cloudflare/puppeteer";
 
 /**
  * CDP (Chrome DevTools Protocol) WebSocket shim
@@ -18,6 +63,7 @@ interface CDPRequest {
   id: number;
   method: string;
   params?: Record<string, unknown>;
+  sessionId?: string; // flat-mode session the command is addressed to
 }
 
 // CDPResponse and CDPEvent removed as they were unused
@@ -26,26 +72,120 @@ interface CDPRequest {
  * Session state for a CDP connection
  */
 interface CDPSession {
+  id: string; // Browser Rendering session ID clients reconnect with
+  owner: string; // credential or ticket that opened the browser (see CDPAccess)
   browser: Browser;
   pages: Map<string, Page>; // targetId -> Page
   defaultTargetId: string;
-  nodeIdCounter: number;
-  nodeMap: Map<number, string>; // nodeId -> selector path
+  ws: WebSocket; // client connection that events are sent to
+  attachedSessions: Map<string, string>; // flat-mode sessionId -> targetId
+  autoAttach: boolean; // Target.setAutoAttach was enabled on the browser connection
+  discoverTargets: boolean; // Target.setDiscoverTargets was enabled
+  documentsRequested: Set<Page>; // pages the client has called DOM.getDocument on
   objectIdCounter: number;
-  objectMap: Map<string, unknown>; // objectId -> value (for Runtime.getProperties)
+  objectMap: Map<string, JSHandle>; // objectId -> page handle backing the RemoteObject
+  objectGroups: Map<string, Set<string>>; // objectGroup -> objectIds (for Runtime.releaseObjectGroup)
   scriptsToEvaluateOnNewDocument: Map<string, string>; // identifier -> source
+  newDocumentScriptIds: WeakMap<Page, Map<string, string>>; // page -> our script identifier -> Puppeteer's
+  pageEventListeners: Map<Page, () => void>; // page -> detach Page event forwarding
+  screencastListeners: Map<Page, () => void>; // page -> detach Page.screencastFrame forwarding
+  runtimeListeners: Map<Page, () => void>; // page -> detach console and exception forwarding
+  logListeners: Map<Page, () => void>; // page -> detach Log.entryAdded forwarding
   extraHTTPHeaders: Map<string, string>; // header name -> value
-  requestInterceptionEnabled: boolean;
-  pendingRequests: Map<
-    string,
-    { request: Request; resolve: (response: Response) => void }
-  >;
+  networkListeners: Map<Page, () => void>; // page -> detach Network event listeners
+  networkRequestIds: WeakMap<HTTPRequest, string>; // request -> CDP requestId
+  networkResponses: Map<string, HTTPResponse>; // requestId -> response (for Network.getResponseBody)
+  interceptedPages: Set<Page>; // pages with Fetch.enable in effect
+  devToolsClients: Map<Page, PuppeteerCDPSession>; // page -> raw DevTools session for features Puppeteer doesn't wrap
+  pendingRequests: Map<string, PuppeteerCDPSession>; // paused requestId -> session it is paused on
+  browserClient?: PuppeteerCDPSession; // raw DevTools session on the browser target
+  stopDownloads?: () => Promise<void>; // ends download capture started by Browser.setDownloadBehavior
+  bucket: R2Bucket; // where downloads and large traces are stored
+  tracing?: { page: Page; stop: () => void }; // trace in progress and a function that stops collecting it
+  keepAliveTimer?: ReturnType<typeof setTimeout>; // closes the browser once no client has reconnected
+  leaseId: string; // BrowserCoordinator slot held by the browser
+  lastTouch: number; // when activity was last reported to the coordinator
+  idleTimer?: ReturnType<typeof setTimeout>; // closes the session once the client goes quiet
 }
 
+/**
+ * Live CDP sessions in this isolate, by Browser Rendering session ID.
+ *
+ * A session outlives its WebSocket for the keep-alive window, so a client
+ * that reconnects with `?session=<id>` finds its pages as it left them.
+ */
+const liveSessions = new Map<string, CDPSession>();
+
+/**
+ * Recorders of connections opened with `?record=true`, by connection
+ */
+const recorders = new WeakMap<WebSocket, CDPRecorder>();
+
+/**
+ * Minimum interval between activity reports to the BrowserCoordinator
+ */
+const LEASE_TOUCH_INTERVAL_MS = 30_000;
+
+/**
+ * Owner of browsers opened with CDP_SECRET, and of the discovery tickets
+ * minted for its holders
+ */
+const SECRET_OWNER = "secret";
+
+/**
+ * Thrown when the BrowserCoordinator has no browser to give out
+ */
+class BrowserLimitError extends Error {}
+
+/**
+ * Thrown when the browser session to resume doesn't exist (any more)
+ */
+class SessionNotFoundError extends Error {}
+
+/**
+ * Thrown when the browser session to resume is in use by a connected client
+ */
+class SessionBusyError extends Error {}
+
+/**
+ * Thrown to answer a request with a specific CDP error code rather than the
+ * generic -32000
+ */
+class CDPError extends Error {
+  constructor(
+    readonly code: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Error for a method the shim doesn't implement, worded as Chrome words it
+ */
+function methodNotFound(method: string): CDPError {
+  return new CDPError(-32601, `'${method}' wasn't found`);
+}
+
+/**
+ * Requests after which a screenshot is added to a recording
+ */
+const NAVIGATION_METHODS = new Set([
+  "Page.navigate",
+  "Page.reload",
+  "Page.navigateToHistoryEntry"
+]);
+
 /**
  * GET /cdp - WebSocket upgrade endpoint
  *
- * Connect with: ws://host/cdp?secret=<CDP_SECRET>
+ * Connect with: ws://host/cdp?ticket=<ticket>, or an `Authorization: Bearer`
+ * header carrying a ticket or CDP_SECRET (?secret=<CDP_SECRET> only with
+ * CDP_ALLOW_SECRET_IN_URL)
+ * Reconnect to a live browser with: ws://host/cdp?ticket=<ticket>&session=<id>
+ * (a ticket limited to a session reconnects to it without `session`)
+ * Record the connection's traffic to R2 with `&record=true`, leaving page
+ * scripts and their results out of it with `&redactScripts=true`
  */
 cdp.get("/", async (c) => {
   // Check for WebSocket upgrade
@@ -53,117 +193,14 @@ cdp.get("/", async (c) => {
   if (upgradeHeader?.toLowerCase() !== "websocket") {
     return c.json({
       error: "WebSocket upgrade required",
-      hint: "Connect via WebSocket: ws://host/cdp?secret=<CDP_SECRET>",
-      supported_methods: [
-        // Browser
-        "Browser.getVersion",
-        "Browser.close",
-        // Target
-        "Target.createTarget",
-        "Target.closeTarget",
-        "Target.getTargets",
-        "Target.attachToTarget",
-        // Page
-        "Page.navigate",
-        "Page.reload",
-        "Page.captureScreenshot",
-        "Page.getFrameTree",
-        "Page.getLayoutMetrics",
-        "Page.bringToFront",
-        "Page.setContent",
-        "Page.printToPDF",
-        "Page.addScriptToEvaluateOnNewDocument",
-        "Page.removeScriptToEvaluateOnNewDocument",
-        "Page.handleJavaScriptDialog",
-        "Page.stopLoading",
-        "Page.getNavigationHistory",
-        "Page.navigateToHistoryEntry",
-        "Page.setBypassCSP",
-        // Runtime
-        "Runtime.evaluate",
-        "Runtime.callFunctionOn",
-        "Runtime.getProperties",
-        "Runtime.releaseObject",
-        "Runtime.releaseObjectGroup",
-        // DOM
-        "DOM.getDocument",
-        "DOM.querySelector",
-        "DOM.querySelectorAll",
-        "DOM.getOuterHTML",
-        "DOM.getAttributes",
-        "DOM.setAttributeValue",
-        "DOM.focus",
-        "DOM.getBoxModel",
-        "DOM.scrollIntoViewIfNeeded",
-        "DOM.removeNode",
-        "DOM.setNodeValue",
-        "DOM.setFileInputFiles",
-        // Input
-        "Input.dispatchMouseEvent",
-        "Input.dispatchKeyEvent",
-        "Input.insertText",
-        // Network
-        "Network.enable",
-        "Network.disable",
-        "Network.setCacheDisabled",
-        "Network.setExtraHTTPHeaders",
-        "Network.setCookie",
-        "Network.setCookies",
-        "Network.getCookies",
-        "Network.deleteCookies",
-        "Network.clearBrowserCookies",
-        "Network.setUserAgentOverride",
-        // Fetch (Request Interception)
-        "Fetch.enable",
-        "Fetch.disable",
-        "Fetch.continueRequest",
-        "Fetch.fulfillRequest",
-        "Fetch.failRequest",
-        "Fetch.getResponseBody",
-        // Emulation
-        "Emulation.setDeviceMetricsOverride",
-        "Emulation.clearDeviceMetricsOverride",
-        "Emulation.setUserAgentOverride",
-        "Emulation.setGeolocationOverride",
-        "Emulation.clearGeolocationOverride",
-        "Emulation.setTimezoneOverride",
-        "Emulation.setTouchEmulationEnabled",
-        "Emulation.setEmulatedMedia",
-        "Emulation.setDefaultBackgroundColorOverride"
-      ]
+      hint: "Connect via WebSocket: ws://host/cdp?ticket=<ticket>, or with an Authorization: Bearer <CDP_SECRET> header",
+      supported_methods: supportedMethods()
     });
   }
 
-  // Verify secret from query param
   const url = new URL(c.req.url);
-  const providedSecret = url.searchParams.get("secret");
-  const expectedSecret = c.env.CDP_SECRET;
-
-  if (!expectedSecret) {
-    return c.json(
-      {
-        error: "CDP endpoint not configured",
-        hint: "Set CDP_SECRET via: wrangler secret put CDP_SECRET"
-      },
-      503
-    );
-  }
-
-  // Use simple string comparison or timingSafeEqual if available in this env
-  // Node crypto might not be fully polyfilled, but usually is in recent workers compat
-  try {
-    if (
-      !providedSecret ||
-      !timingSafeEqual(Buffer.from(providedSecret), Buffer.from(expectedSecret))
-    ) {
-      return c.json({ error: "Unauthorized" }, 401);
-    }
-  } catch (e) {
-    // Fallback if Buffer/timingSafeEqual fails
-    if (providedSecret !== expectedSecret) {
-      return c.json({ error: "Unauthorized" }, 401);
-    }
-  }
+  const access = await authorizeCDP(c);
+  if (access instanceof Response) return access;
 
   if (!c.env.BROWSER) {
     return c.json(
@@ -182,8 +219,17 @@ cdp.get("/", async (c) => {
   // Accept the WebSocket
   server.accept();
 
-  // Initialize CDP session asynchronously
-  initCDPSession(server, c.env).catch((err) => {
+  // Initialize CDP session asynchronously, resuming one if asked to
+  initCDPSession(server, c.env, {
+    sessionId: url.searchParams.get("session") ?? access.claims?.session,
+    access,
+    record:
+      url.searchParams.get("record") === "true" ||
+      c.env.CDP_RECORD_SESSIONS === "true",
+    redactScripts:
+      url.searchParams.get("redactScripts") === "true" ||
+      c.env.CDP_RECORD_REDACT_SCRIPTS === "true"
+  }).catch((err) => {
     console.error("[CDP] Failed to initialize session:", err);
     server.close(1011, "Failed to initialize browser session");
   });
@@ -198,27 +244,14 @@ cdp.get("/", async (c) => {
  * GET /json/version - CDP discovery endpoint
  *
  * Returns browser version info and WebSocket URL for Moltbot/Playwright compatibility.
- * Authentication: Pass secret as query param `?secret=<CDP_SECRET>`
+ * Pass `?session=<id>` to get a URL that reconnects to that browser session.
+ * Also served with a trailing slash, which Playwright's connectOverCDP asks for.
+ * Authentication: `Authorization: Bearer` or `?ticket=`
  */
-cdp.get("/json/version", async (c) => {
-  // Verify secret from query param
+cdp.on("GET", ["/json/version", "/json/version/"], async (c) => {
   const url = new URL(c.req.url);
-  const providedSecret = url.searchParams.get("secret");
-  const expectedSecret = c.env.CDP_SECRET;
-
-  if (!expectedSecret) {
-    return c.json(
-      {
-        error: "CDP endpoint not configured",
-        hint: "Set CDP_SECRET via: wrangler secret put CDP_SECRET"
-      },
-      503
-    );
-  }
-
-  if (providedSecret !== expectedSecret) {
-    return c.json({ error: "Unauthorized" }, 401);
-  }
+  const access = await authorizeCDP(c);
+  if (access instanceof Response) return access;
 
   if (!c.env.BROWSER) {
     return c.json(
@@ -230,9 +263,12 @@ cdp.get("/json/version", async (c) => {
     );
   }
 
-  // Build the WebSocket URL - preserve the secret in the WS URL
-  const wsProtocol = url.protocol === "https:" ? "wss:" : "ws:";
-  const wsUrl = `${wsProtocol}//${url.host}/cdp?secret=${encodeURIComponent(providedSecret)}`;
+  // Build the WebSocket URL, preserving the session to reconnect to
+  let wsUrl = await debuggerUrl(c, access);
+  const sessionId = url.searchParams.get("session");
+  if (sessionId) {
+    wsUrl += `&session=${encodeURIComponent(sessionId)}`;
+  }
 
   return c.json({
     Browser: "Cloudflare-Browser-Rendering/1.0",
@@ -245,32 +281,30 @@ cdp.get("/json/version", async (c) => {
 });
 
 /**
- * GET /json/list - List available targets (tabs)
+ * GET /json/protocol - Protocol description
  *
- * Returns a list of available browser targets for Moltbot/Playwright compatibility.
- * Note: Since we create targets on-demand per WebSocket connection, this returns
- * a placeholder target that will be created when connecting.
- * Authentication: Pass secret as query param `?secret=<CDP_SECRET>`
+ * Lists the domains, commands and events the shim implements, in the shape of
+ * Chrome's protocol JSON, so clients can feature-detect before connecting.
+ * Authentication: `Authorization: Bearer` or `?ticket=`
  */
-cdp.get("/json/list", async (c) => {
-  // Verify secret from query param
-  const url = new URL(c.req.url);
-  const providedSecret = url.searchParams.get("secret");
-  const expectedSecret = c.env.CDP_SECRET;
+cdp.get("/json/protocol", async (c) => {
+  const access = await authorizeCDP(c);
+  if (access instanceof Response) return access;
 
-  if (!expectedSecret) {
-    return c.json(
-      {
-        error: "CDP endpoint not configured",
-        hint: "Set CDP_SECRET via: wrangler secret put CDP_SECRET"
-      },
-      503
-    );
-  }
+  return c.json(protocolDescription());
+});
 
-  if (providedSecret !== expectedSecret) {
-    return c.json({ error: "Unauthorized" }, 401);
-  }
+/**
+ * GET /json/list - List available targets (tabs)
+ *
+ * Returns the pages of every live browser session for Moltbot/Playwright
+ * compatibility. Each entry's WebSocket URL reconnects to its session. With no
+ * live sessions, a placeholder target is returned that is created on connect.
+ * Authentication: `Authorization: Bearer` or `?ticket=`
+ */
+cdp.get("/json/list", async (c) => {
+  const access = await authorizeCDP(c);
+  if (access instanceof Response) return access;
 
   if (!c.env.BROWSER) {
     return c.json(
@@ -283,21 +317,9 @@ cdp.get("/json/list", async (c) => {
   }
 
   // Build the WebSocket URL
-  const wsProtocol = url.protocol === "https:" ? "wss:" : "ws:";
-  const wsUrl = `${wsProtocol}//${url.host}/cdp?secret=${encodeURIComponent(providedSecret)}`;
+  const wsUrl = await debuggerUrl(c, access);
 
-  // Return a placeholder target - actual target is created on WS connect
-  return c.json([
-    {
-      description: "",
-      devtoolsFrontendUrl: "",
-      id: "cloudflare-browser",
-      title: "Cloudflare Browser Rendering",
-      type: "page",
-      url: "about:blank",
-      webSocketDebuggerUrl: wsUrl
-    }
-  ]);
+  return c.json(await listTargets(c.env, wsUrl, access));
 });
 
 /**
@@ -308,23 +330,40 @@ cdp.get("/json", async (c) => {
   const url = new URL(c.req.url);
   url.pathname = url.pathname.replace(/\/json\/?$/, "/json/list");
 
-  // Verify secret from query param
-  const providedSecret = url.searchParams.get("secret");
-  const expectedSecret = c.env.CDP_SECRET;
+  const access = await authorizeCDP(c);
+  if (access instanceof Response) return access;
 
-  if (!expectedSecret) {
+  if (!c.env.BROWSER) {
     return c.json(
       {
-        error: "CDP endpoint not configured",
-        hint: "Set CDP_SECRET via: wrangler secret put CDP_SECRET"
+        error: "Browser Rendering not configured",
+        hint: "Add browser binding to wrangler.jsonc"
       },
       503
     );
   }
 
-  if (providedSecret !== expectedSecret) {
-    return c.json({ error: "Unauthorized" }, 401);
-  }
+  // Build the WebSocket URL
+  const wsUrl = await debuggerUrl(c, access);
+
+  return c.json(await listTargets(c.env, wsUrl, access));
+});
+
+/**
+ * POST /cdp/run - Run a list of CDP commands over HTTP
+ *
+ * For clients without a WebSocket. Body: `{ steps, session?, keepAlive?,
+ * stopOnError? }`, where each step is `{ method, params?, sessionId?,
+ * waitForEvent?, wait? }` or just `{ wait }`. Commands go through the same
+ * dispatcher as the WebSocket endpoint. Pass `keepAlive: true` to keep the
+ * browser for a later run with `session: <id>`. A run never closes a browser
+ * it resumed; an unknown session is answered with 404, and one a WebSocket
+ * client is connected to with 409.
+ * Authentication: `Authorization: Bearer` or `?ticket=`
+ */
+cdp.post("/run", async (c) => {
+  const access = await authorizeCDP(c);
+  if (access instanceof Response) return access;
 
   if (!c.env.BROWSER) {
     return c.json(
@@ -336,170 +375,1087 @@ cdp.get("/json", async (c) => {
     );
   }
 
-  // Build the WebSocket URL
-  const wsProtocol = url.protocol === "https:" ? "wss:" : "ws:";
-  const wsUrl = `${wsProtocol}//${url.host}/cdp?secret=${encodeURIComponent(providedSecret)}`;
+  let body: CDPRunRequest;
+  try {
+    body = await c.req.json<CDPRunRequest>();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+  if (!Array.isArray(body.steps) || body.steps.length === 0) {
+    return c.json({ error: "steps must be a non-empty array" }, 400);
+  }
+  if (body.steps.length > CDP_RUN_MAX_STEPS) {
+    return c.json(
+      { error: `At most ${CDP_RUN_MAX_STEPS} steps are allowed per run` },
+      400
+    );
+  }
 
-  return c.json([
-    {
-      description: "",
-      devtoolsFrontendUrl: "",
-      id: "cloudflare-browser",
-      title: "Cloudflare Browser Rendering",
-      type: "page",
-      url: "about:blank",
-      webSocketDebuggerUrl: wsUrl
-    }
-  ]);
+  try {
+    return c.json(await runCDPSteps(c.env, body, access));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    if (err instanceof BrowserLimitError)
+      return c.json({ error: message }, 503);
+    if (err instanceof SessionNotFoundError)
+      return c.json({ error: message }, 404);
+    if (err instanceof SessionBusyError) return c.json({ error: message }, 409);
+    return c.json({ error: message }, 500);
+  }
 });
 
 /**
- * Initialize a CDP session for a WebSocket connection
+ * GET /cdp/traces/:id - Download a trace too large to send over the socket
+ *
+ * Tracing.tracingComplete carries the `traceId` of such traces. Only the
+ * credential that opened the browser may download them; others get a 404.
+ * Authentication: `Authorization: Bearer` or `?ticket=`
  */
-async function initCDPSession(ws: WebSocket, env: AgentEnv): Promise<void> {
-  let session: CDPSession | null = null;
-
-  try {
-    // Launch browser
-    const browser = await puppeteer.launch(env.BROWSER!);
-    const page = await browser.newPage();
-    const targetId = crypto.randomUUID();
-
-    session = {
-      browser,
-      pages: new Map([[targetId, page]]),
-      defaultTargetId: targetId,
-      nodeIdCounter: 1,
-      nodeMap: new Map(),
-      objectIdCounter: 1,
-      objectMap: new Map(),
-      scriptsToEvaluateOnNewDocument: new Map(),
-      extraHTTPHeaders: new Map(),
-      requestInterceptionEnabled: false,
-      pendingRequests: new Map()
-    };
-
-    // Send initial target created event
-    sendEvent(ws, "Target.targetCreated", {
-      targetInfo: {
-        targetId,
-        type: "page",
-        title: "",
-        url: "about:blank",
-        attached: true
-      }
-    });
+cdp.get("/traces/:id", async (c) => {
+  const access = await authorizeCDP(c);
+  if (access instanceof Response) return access;
 
-    console.log("[CDP] Session initialized, targetId:", targetId);
-  } catch (err) {
-    console.error("[CDP] Browser launch failed:", err);
-    ws.close(1011, "Browser launch failed");
-    return;
+  const trace = await getTrace(c.env.MOLTBOT_BUCKET, c.req.param("id"));
+  if (!trace || trace.customMetadata?.owner !== access.owner) {
+    return c.json({ error: "Trace not found" }, 404);
   }
 
-  // Handle incoming messages
-  ws.addEventListener("message", async (event) => {
-    if (!session) return;
+  return new Response(trace.body, {
+    headers: { "Content-Type": "application/json" }
+  });
+});
 
-    let request: CDPRequest;
-    try {
-      request = JSON.parse(event.data as string);
-    } catch {
-      console.error("[CDP] Invalid JSON received");
-      return;
-    }
+/**
+ * How a CDP request was authorized. Ticket holders carry the ticket's limits;
+ * CDP_SECRET holders are unrestricted. Either may only list and resume the
+ * browsers of its `owner`: SECRET_OWNER, or the ticket's `sub` (else its ID).
+ */
+interface CDPAccess {
+  ticket?: string;
+  claims?: CDPTicketClaims;
+  owner: string;
+}
 
-    console.log("[CDP] Request:", request.method, request.params);
+/**
+ * Authorize a CDP request by access ticket or CDP_SECRET, taken from an
+ * `Authorization: Bearer` header or `?ticket=`. `?secret=` is accepted only
+ * with CDP_ALLOW_SECRET_IN_URL, for clients that can't send headers.
+ * Returns the error response to send when the request is not allowed.
+ */
+async function authorizeCDP(
+  c: Context<{ Bindings: AgentEnv }>
+): Promise<CDPAccess | Response> {
+  const expectedSecret = c.env.CDP_SECRET;
+  if (!expectedSecret) {
+    return c.json(
+      {
+        error: "CDP endpoint not configured",
+        hint: "Set CDP_SECRET via: wrangler secret put CDP_SECRET"
+      },
+      503
+    );
+  }
 
-    try {
-      const result = await handleCDPMethod(
-        session,
-        request.method,
-        request.params || {},
-        ws
-      );
-      sendResponse(ws, request.id, result);
-    } catch (err) {
-      console.error("[CDP] Method error:", request.method, err);
-      sendError(
-        ws,
-        request.id,
-        -32000,
-        err instanceof Error ? err.message : "Unknown error"
+  const url = new URL(c.req.url);
+  const bearer = c.req.header("Authorization")?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const querySecret = url.searchParams.get("secret");
+  if (querySecret) {
+    if (c.env.CDP_ALLOW_SECRET_IN_URL !== "true") {
+      return c.json(
+        {
+          error: "Unauthorized",
+          reason:
+            "?secret= is disabled; send CDP_SECRET as Authorization: Bearer, use a ticket, or set CDP_ALLOW_SECRET_IN_URL=true"
+        },
+        401
       );
     }
-  });
+    console.warn(
+      "[CDP] ?secret= is deprecated; send CDP_SECRET as Authorization: Bearer"
+    );
+  }
+  const credential = bearer ?? url.searchParams.get("ticket") ?? querySecret;
+  if (!credential) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
 
-  // Handle close
-  ws.addEventListener("close", async () => {
-    console.log("[CDP] WebSocket closed, cleaning up");
-    if (session) {
-      try {
-        await session.browser.close();
-      } catch (err) {
-        console.error("[CDP] Error closing browser:", err);
-      }
-    }
-  });
+  if (secretsEqual(credential, expectedSecret)) {
+    return { owner: SECRET_OWNER };
+  }
 
-  ws.addEventListener("error", (event) => {
-    console.error("[CDP] WebSocket error:", event);
-  });
+  let claims: CDPTicketClaims;
+  try {
+    claims = await verifyCDPTicket(c.env, credential);
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : "Invalid ticket";
+    return c.json({ error: "Unauthorized", reason }, 401);
+  }
+
+  if (!isOriginAllowed(claims, c.req.header("Origin"))) {
+    return c.json({ error: "Origin not allowed by ticket" }, 403);
+  }
+  return {
+    ticket: credential,
+    claims,
+    owner: claims.sub ?? `ticket:${claims.jti}`
+  };
 }
 
 /**
- * Handle a CDP method call
+ * Ticket this isolate hands to CDP_SECRET holders in discovery responses,
+ * reused while it has at least half its lifetime left
  */
-async function handleCDPMethod(
-  session: CDPSession,
-  method: string,
-  params: Record<string, unknown>,
-  ws: WebSocket
-): Promise<unknown> {
-  const [domain, command] = method.split(".");
+let discoveryTicket: { ticket: string; exp: number } | undefined;
 
-  // Get the current page (use targetId from params or default)
-  const targetId = (params.targetId as string) || session.defaultTargetId;
-  const page = session.pages.get(targetId);
-
-  switch (domain) {
-    case "Browser":
-      return handleBrowser(session, command, params);
-
-    case "Target":
-      return handleTarget(session, command, params, ws);
+/**
+ * Get a short-lived ticket for CDP_SECRET holders, minting (and recording) a
+ * new one only when the current one is past half its lifetime
+ */
+async function secretHolderTicket(env: AgentEnv): Promise<string> {
+  const now = Date.now() / 1000;
+  if (
+    !discoveryTicket ||
+    discoveryTicket.exp - now < CDP_DEBUGGER_URL_TTL_SECONDS / 2
+  ) {
+    const { ticket, claims } = await mintCDPTicket(env, {
+      ttlSeconds: CDP_DEBUGGER_URL_TTL_SECONDS,
+      sub: SECRET_OWNER,
+      label: "webSocketDebuggerUrl"
+    });
+    discoveryTicket = { ticket, exp: claims.exp };
+  }
+  return discoveryTicket.ticket;
+}
 
-    case "Page":
-      if (!page) throw new Error(`Target not found: ${targetId}`);
-      return handlePage(session, page, command, params, ws);
+/**
+ * Build the WebSocket URL handed out by the discovery endpoints. It carries
+ * the caller's own ticket, or a short-lived one for CDP_SECRET holders, so the
+ * secret never ends up in responses or logged URLs.
+ */
+async function debuggerUrl(
+  c: Context<{ Bindings: AgentEnv }>,
+  access: CDPAccess
+): Promise<string> {
+  const url = new URL(c.req.url);
+  const wsProtocol = url.protocol === "https:" ? "wss:" : "ws:";
 
-    case "Runtime":
-      if (!page) throw new Error(`Target not found: ${targetId}`);
-      return handleRuntime(session, page, command, params);
+  const ticket = access.ticket ?? (await secretHolderTicket(c.env));
+  return `${wsProtocol}//${url.host}/cdp?ticket=${encodeURIComponent(ticket)}`;
+}
 
-    // case "DOM":
-    //   if (!page) throw new Error(`Target not found: ${targetId}`);
-    //   return handleDOM(session, page, command, params);
+/**
+ * Whether a client may see and resume a browser opened by `owner`: one of
+ * its own, or the one its ticket is limited to. Browsers the shim doesn't
+ * know the owner of are off limits.
+ */
+function mayUseSession(
+  access: CDPAccess,
+  sessionId: string,
+  owner: string | undefined
+): boolean {
+  if (owner === undefined) return false;
+  if (access.claims?.session) return isSessionAllowed(access.claims, sessionId);
+  return owner === access.owner;
+}
 
-    case "Input":
-      if (!page) throw new Error(`Target not found: ${targetId}`);
-      return handleInput(page, command, params);
+/**
+ * Describe the pages of the live browser sessions a client may use (see
+ * mayUseSession) as /json/list entries.
+ *
+ * Sessions held by another isolate are listed too while no client is
+ * connected to them, since Browser Rendering allows one connection at a time.
+ * Browsers the shim didn't open (or whose owner it forgot) are left out.
+ */
+async function listTargets(
+  env: AgentEnv,
+  wsUrl: string,
+  access: CDPAccess
+): Promise<Record<string, unknown>[]> {
+  const targets: Record<string, unknown>[] = [];
+  const addTarget = async (sessionId: string, targetId: string, page: Page) => {
+    targets.push({
+      description: "",
+      devtoolsFrontendUrl: "",
+      id: targetId,
+      title: await page.title(),
+      type: "page",
+      url: page.url(),
+      webSocketDebuggerUrl: `${wsUrl}&session=${encodeURIComponent(sessionId)}`
+    });
+  };
 
-    // case "Network":
-    //   return handleNetwork(session, page, command, params);
+  for (const session of liveSessions.values()) {
+    if (!mayUseSession(access, session.id, session.owner)) continue;
+    for (const [targetId, page] of session.pages) {
+      await addTarget(session.id, targetId, page);
+    }
+  }
 
-    // case "Emulation":
-    //   if (!page) throw new Error(`Target not found: ${targetId}`);
-    //   return handleEmulation(page, command, params);
+  const owners = await getBrowserCoordinator(env).owners();
+  for (const { sessionId, connectionId } of await puppeteer.sessions(
+    env.BROWSER!
+  )) {
+    if (liveSessions.has(sessionId) || connectionId) continue;
+    if (!mayUseSession(access, sessionId, owners[sessionId])) continue;
 
-    // case "Fetch":
-    //   if (!page) throw new Error(`Target not found: ${targetId}`);
-    //   return handleFetch(session, page, command, params, ws);
+    try {
+      const browser = await puppeteer.connect(env.BROWSER!, sessionId);
+      try {
+        for (const page of await browser.pages()) {
+          await addTarget(sessionId, await targetIdOf(page), page);
+        }
+      } finally {
+        await browser.disconnect();
+      }
+    } catch (err) {
+      console.warn("[CDP] Could not list targets of session", sessionId, err);
+    }
+  }
 
-    default:
-      console.warn(`Unknown or partially implemented domain: ${domain}`);
-      return {}; // Basic handler for unimplemented domains to prevent crash
-    // throw new Error(`Unknown domain: ${domain}`);
+  // Placeholder target - actual target is created on WS connect
+  if (targets.length === 0) {
+    targets.push({
+      description: "",
+      devtoolsFrontendUrl: "",
+      id: "cloudflare-browser",
+      title: "Cloudflare Browser Rendering",
+      type: "page",
+      url: "about:blank",
+      webSocketDebuggerUrl: wsUrl
+    });
+  }
+  return targets;
+}
+
+/**
+ * Look up the browser's own target ID for a page, so target IDs stay the same
+ * for clients that reconnect to the session
+ */
+async function targetIdOf(page: Page): Promise<string> {
+  const client = await page.createCDPSession();
+  try {
+    const { targetInfo } = await client.send("Target.getTargetInfo");
+    return targetInfo.targetId;
+  } finally {
+    await client.detach();
+  }
+}
+
+/**
+ * How long a browser is kept for reconnects after its client disconnects.
+ * Capped at the Browser Rendering maximum.
+ */
+function keepAliveMs(env: AgentEnv): number {
+  const configured = Number(env.CDP_KEEP_ALIVE_MS);
+  return configured > 0
+    ? Math.min(configured, CDP_KEEP_ALIVE_MS)
+    : CDP_KEEP_ALIVE_MS;
+}
+
+/**
+ * Build the CDP state for a browser and register it as a live session
+ */
+async function createCDPSession(
+  env: AgentEnv,
+  browser: Browser,
+  ws: WebSocket,
+  pages: Page[],
+  leaseId: string,
+  owner: string
+): Promise<CDPSession> {
+  const targets = new Map<string, Page>();
+  for (const page of pages) {
+    targets.set(await targetIdOf(page), page);
+  }
+
+  const session: CDPSession = {
+    id: browser.sessionId(),
+    owner,
+    browser,
+    pages: targets,
+    defaultTargetId: targets.keys().next().value!,
+    ws,
+    attachedSessions: new Map(),
+    autoAttach: false,
+    discoverTargets: false,
+    documentsRequested: new Set(),
+    objectIdCounter: 1,
+    objectMap: new Map(),
+    objectGroups: new Map(),
+    scriptsToEvaluateOnNewDocument: new Map(),
+    newDocumentScriptIds: new WeakMap(),
+    pageEventListeners: new Map(),
+    screencastListeners: new Map(),
+    runtimeListeners: new Map(),
+    logListeners: new Map(),
+    extraHTTPHeaders: new Map(),
+    networkListeners: new Map(),
+    networkRequestIds: new WeakMap(),
+    networkResponses: new Map(),
+    interceptedPages: new Set(),
+    devToolsClients: new Map(),
+    pendingRequests: new Map(),
+    bucket: env.MOLTBOT_BUCKET,
+    leaseId,
+    lastTouch: Date.now()
+  };
+
+  liveSessions.set(session.id, session);
+  browser.on("disconnected", () => {
+    clearTimeout(session.keepAliveTimer);
+    clearTimeout(session.idleTimer);
+    liveSessions.delete(session.id);
+    getBrowserCoordinator(env)
+      .release(session.leaseId)
+      .catch((err) => console.error("[CDP] Error releasing browser:", err));
+  });
+  return session;
+}
+
+/**
+ * Launch a browser for `owner` once the BrowserCoordinator has a slot for it
+ */
+async function launchCDPSession(
+  ws: WebSocket,
+  env: AgentEnv,
+  owner: string
+): Promise<CDPSession> {
+  const coordinator = getBrowserCoordinator(env);
+  let leaseId: string;
+  try {
+    leaseId = await coordinator.acquire();
+  } catch (err) {
+    throw new BrowserLimitError(
+      err instanceof Error ? err.message : "No browser available"
+    );
+  }
+
+  try {
+    // The client may have given up while waiting in line
+    if (ws.readyState !== WebSocket.OPEN) {
+      throw new Error("Client disconnected while waiting for a browser");
+    }
+
+    const browser = await puppeteer.launch(env.BROWSER!, {
+      keep_alive: keepAliveMs(env)
+    });
+    await coordinator.attach(leaseId, browser.sessionId(), owner);
+    return await createCDPSession(
+      env,
+      browser,
+      ws,
+      [await browser.newPage()],
+      leaseId,
+      owner
+    );
+  } catch (err) {
+    await coordinator.release(leaseId);
+    const reason = err instanceof Error ? err.message : "Unknown error";
+    throw new Error(`Browser launch failed: ${reason}`);
+  }
+}
+
+/**
+ * Close a session's browser for good; its slot is released on disconnect
+ */
+async function closeCDPSession(session: CDPSession): Promise<void> {
+  clearTimeout(session.keepAliveTimer);
+  clearTimeout(session.idleTimer);
+  liveSessions.delete(session.id);
+  try {
+    await session.browser.close();
+  } catch (err) {
+    console.error("[CDP] Error closing browser:", err);
+  }
+}
+
+/**
+ * Note client activity on a session: restart its idle timer and, at most
+ * every LEASE_TOUCH_INTERVAL_MS, report it to the BrowserCoordinator
+ */
+function touchCDPSession(session: CDPSession, env: AgentEnv) {
+  clearTimeout(session.idleTimer);
+  session.idleTimer = setTimeout(() => {
+    console.log("[CDP] Closing idle session:", session.id);
+    void closeCDPSession(session);
+    session.ws.close(1000, "Browser session idle timeout");
+  }, browserIdleTimeoutMs(env));
+
+  if (Date.now() - session.lastTouch < LEASE_TOUCH_INTERVAL_MS) return;
+  session.lastTouch = Date.now();
+
+  const coordinator = getBrowserCoordinator(env);
+  coordinator
+    .touch(session.leaseId)
+    .then(async (active) => {
+      // Reaped while we weren't reporting; the browser still counts
+      if (!active) {
+        session.leaseId = await coordinator.adopt(session.id, session.owner);
+      }
+    })
+    .catch((err) => console.warn("[CDP] Error reporting activity:", err));
+}
+
+/**
+ * Drop what the previous client enabled on a session it left behind. Like
+ * Chrome, a new connection starts without events, interception or attached
+ * sessions; pages, cookies and overrides carry over.
+ */
+async function resetConnectionState(session: CDPSession): Promise<void> {
+  for (const listeners of [
+    session.networkListeners,
+    session.pageEventListeners,
+    session.screencastListeners,
+    session.runtimeListeners,
+    session.logListeners
+  ]) {
+    for (const detach of listeners.values()) detach();
+    listeners.clear();
+  }
+
+  for (const page of [...session.interceptedPages]) {
+    await handleFetch(session, page, "disable", {});
+  }
+
+  await session.stopDownloads?.();
+  session.stopDownloads = undefined;
+
+  if (session.tracing) {
+    const { page, stop } = session.tracing;
+    stop();
+    await sendRaw(await devToolsClientFor(session, page), "Tracing.end").catch(
+      () => {}
+    );
+  }
+
+  session.attachedSessions.clear();
+  session.autoAttach = false;
+  session.discoverTargets = false;
+}
+
+/**
+ * Find the browser session a client asked to reconnect to, either still held
+ * by this isolate or reattached through Browser Rendering. Only clients that
+ * may use the session (see mayUseSession) can resume it; to anyone else it
+ * doesn't exist.
+ *
+ * A client still connected to the session is disconnected if `takeOver` is
+ * set (a reconnecting client after a blip), else the session is busy.
+ *
+ * @throws SessionNotFoundError if there is no such session for the client
+ * @throws SessionBusyError if another client is using the session
+ */
+async function resumeCDPSession(
+  ws: WebSocket,
+  env: AgentEnv,
+  sessionId: string,
+  access: CDPAccess,
+  { takeOver = true }: { takeOver?: boolean } = {}
+): Promise<CDPSession> {
+  const notFound = () =>
+    new SessionNotFoundError("Browser session not found or expired");
+
+  const live = liveSessions.get(sessionId);
+  if (live) {
+    if (!mayUseSession(access, sessionId, live.owner)) throw notFound();
+    const previous = live.ws;
+    if (previous.readyState === WebSocket.OPEN) {
+      if (!takeOver) {
+        throw new SessionBusyError("Browser session is in use by a client");
+      }
+      previous.close(1000, "Session resumed by another connection");
+    }
+    clearTimeout(live.keepAliveTimer);
+    live.ws = ws;
+
+    await resetConnectionState(live);
+    return live;
+  }
+
+  const coordinator = getBrowserCoordinator(env);
+  const owner = (await coordinator.owners())[sessionId];
+  if (!mayUseSession(access, sessionId, owner)) throw notFound();
+
+  let browser: Browser;
+  try {
+    browser = await puppeteer.connect(env.BROWSER!, sessionId);
+  } catch (err) {
+    const sessions = await puppeteer.sessions(env.BROWSER!).catch(() => []);
+    const known = sessions.find((info) => info.sessionId === sessionId);
+    if (known?.connectionId) {
+      throw new SessionBusyError("Browser session is in use by a client");
+    }
+    if (!known) throw notFound();
+    throw err;
+  }
+  const pages = await browser.pages();
+  if (pages.length === 0) pages.push(await browser.newPage());
+
+  const leaseId = await coordinator.adopt(sessionId, owner);
+  return createCDPSession(env, browser, ws, pages, leaseId, owner);
+}
+
+/**
+ * Options for a new CDP connection
+ */
+interface CDPConnectionOptions {
+  /** Browser session to resume instead of launching a browser */
+  sessionId?: string | null;
+  /** How the client was authorized, with its ticket's limits */
+  access: CDPAccess;
+  /** Record the connection's traffic to R2 */
+  record?: boolean;
+  /** Leave page scripts and their results out of the recording */
+  redactScripts?: boolean;
+}
+
+/**
+ * Initialize a CDP session for a WebSocket connection, launching a browser or
+ * resuming the one named by options.sessionId
+ */
+async function initCDPSession(
+  ws: WebSocket,
+  env: AgentEnv,
+  options: CDPConnectionOptions
+): Promise<void> {
+  const { sessionId, access } = options;
+  const { claims } = access;
+  let session: CDPSession | undefined;
+  let failure: string | undefined;
+  const queued: CDPRequest[] = [];
+
+  const handleRequest = async (session: CDPSession, request: CDPRequest) => {
+    console.log("[CDP] Request:", request.method, request.params);
+    touchCDPSession(session, env);
+    const recorder = recorders.get(ws);
+    recorder?.record("request", { ...request });
+
+    if (claims && !isMethodAllowed(claims, request.method)) {
+      sendError(
+        ws,
+        request.id,
+        -32000,
+        `Method not allowed by ticket: ${request.method}`,
+        request.sessionId
+      );
+      return;
+    }
+
+    try {
+      const result = await handleCDPMethod(
+        session,
+        request.method,
+        request.params || {},
+        request.sessionId
+      );
+      sendResponse(ws, request.id, result, request.sessionId);
+
+      if (recorder && NAVIGATION_METHODS.has(request.method)) {
+        const targetId = targetIdFor(
+          session,
+          request.params || {},
+          request.sessionId
+        );
+        const page = session.pages.get(targetId);
+        if (page) {
+          await recorder
+            .screenshot(page)
+            .catch((err) =>
+              console.warn("[CDP] Recording screenshot failed:", err)
+            );
+        }
+      }
+    } catch (err) {
+      console.error("[CDP] Method error:", request.method, err);
+      sendError(
+        ws,
+        request.id,
+        err instanceof CDPError ? err.code : -32000,
+        err instanceof Error ? err.message : "Unknown error",
+        request.sessionId
+      );
+    }
+  };
+
+  // Listen right away: commands sent while the browser launches or waits for
+  // a free slot are answered once it's ready (or with the reason it isn't)
+  ws.addEventListener("message", (event) => {
+    let request: CDPRequest;
+    try {
+      request = JSON.parse(event.data as string);
+    } catch {
+      console.error("[CDP] Invalid JSON received");
+      return;
+    }
+
+    if (session) {
+      void handleRequest(session, request);
+    } else if (failure) {
+      sendError(ws, request.id, -32000, failure, request.sessionId);
+    } else {
+      queued.push(request);
+    }
+  });
+
+  // Handle close: keep the browser around for a reconnect
+  ws.addEventListener("close", () => {
+    recorders
+      .get(ws)
+      ?.save()
+      .catch((err) => console.error("[CDP] Error saving recording:", err));
+
+    if (!session || session.ws !== ws || !liveSessions.has(session.id)) return;
+
+    console.log("[CDP] WebSocket closed, keeping session:", session.id);
+    const closing = session;
+    clearTimeout(closing.idleTimer);
+    closing.keepAliveTimer = setTimeout(
+      () => closeCDPSession(closing),
+      keepAliveMs(env)
+    );
+  });
+
+  ws.addEventListener("error", (event) => {
+    console.error("[CDP] WebSocket error:", event);
+  });
+
+  let ready: CDPSession;
+  let closeCode = 1011;
+  try {
+    if (sessionId) {
+      try {
+        ready = await resumeCDPSession(ws, env, sessionId, access);
+      } catch (err) {
+        console.error("[CDP] Could not resume session:", sessionId, err);
+        throw new Error("Browser session not found or expired");
+      }
+    } else {
+      ready = await launchCDPSession(ws, env, access.owner).catch((err) => {
+        if (err instanceof BrowserLimitError) closeCode = 1013;
+        throw err;
+      });
+    }
+
+    if (options.record) {
+      const recorder = new CDPRecorder(
+        env.MOLTBOT_BUCKET,
+        ready.id,
+        ready.defaultTargetId,
+        { redactScripts: options.redactScripts }
+      );
+      recorders.set(ws, recorder);
+      console.log("[CDP] Recording session to:", recorder.id);
+    }
+
+    // Announce the session's targets
+    for (const targetId of ready.pages.keys()) {
+      sendEvent(ws, "Target.targetCreated", {
+        targetInfo: await targetInfoFor(ready, targetId)
+      });
+    }
+
+    console.log("[CDP] Session initialized:", ready.id);
+  } catch (err) {
+    failure = err instanceof Error ? err.message : "Browser unavailable";
+    console.error("[CDP] Browser session unavailable:", failure);
+    for (const request of queued.splice(0)) {
+      sendError(ws, request.id, -32000, failure, request.sessionId);
+    }
+    // Close reasons are limited to 123 bytes
+    ws.close(closeCode, failure.slice(0, 120));
+    return;
+  }
+
+  session = ready;
+  touchCDPSession(session, env);
+  for (const request of queued.splice(0)) {
+    void handleRequest(session, request);
+  }
+}
+
+/**
+ * Resolve the target a request is addressed to. Flat-mode sessions address
+ * their target through the message's sessionId, older clients pass a targetId
+ * or fall back to the default target.
+ */
+function targetIdFor(
+  session: CDPSession,
+  params: Record<string, unknown>,
+  sessionId?: string
+): string {
+  if (!sessionId) {
+    return (params.targetId as string) || session.defaultTargetId;
+  }
+
+  const attachedTargetId = session.attachedSessions.get(sessionId);
+  if (!attachedTargetId) {
+    throw new Error(`Session with given id not found: ${sessionId}`);
+  }
+  return attachedTargetId;
+}
+
+/**
+ * A request routed to a domain handler
+ */
+interface CDPCall {
+  session: CDPSession;
+  command: string;
+  params: Record<string, unknown>;
+  /** Flattened session the request arrived on */
+  sessionId?: string;
+  /** Target the request addresses, and its page if it still exists */
+  targetId: string;
+  page?: Page;
+}
+
+/**
+ * A CDP domain as implemented by the shim
+ */
+interface CDPDomain {
+  /** Commands the shim handles; anything else is answered with -32601 */
+  commands: readonly string[];
+  /** Events the shim emits */
+  events: readonly string[];
+  handle: (call: CDPCall) => Promise<unknown>;
+}
+
+/**
+ * Adapt a page-level domain handler, failing when the target has no page
+ */
+function onPage(
+  handler: (
+    session: CDPSession,
+    page: Page,
+    command: string,
+    params: Record<string, unknown>
+  ) => Promise<unknown>
+): CDPDomain["handle"] {
+  return ({ session, page, targetId, command, params }) => {
+    if (!page) throw new Error(`Target not found: ${targetId}`);
+    return handler(session, page, command, params);
+  };
+}
+
+/**
+ * Every command and event the shim implements, by domain. Requests are only
+ * dispatched to a handler if listed here, and the supported method list and
+ * /json/protocol are generated from it.
+ */
+const CDP_DOMAINS = new Map<string, CDPDomain>([
+  [
+    "Browser",
+    {
+      commands: ["getVersion", "close", "setDownloadBehavior"],
+      events: ["downloadWillBegin", "downloadProgress"],
+      handle: ({ session, command, params }) =>
+        handleBrowser(session, command, params)
+    }
+  ],
+  [
+    "Target",
+    {
+      commands: [
+        "createTarget",
+        "closeTarget",
+        "getTargets",
+        "getTargetInfo",
+        "activateTarget",
+        "attachToTarget",
+        "detachFromTarget",
+        "setAutoAttach",
+        "setDiscoverTargets",
+        "createBrowserContext",
+        "disposeBrowserContext",
+        "getBrowserContexts"
+      ],
+      events: [
+        "targetCreated",
+        "targetDestroyed",
+        "targetInfoChanged",
+        "attachedToTarget",
+        "detachedFromTarget"
+      ],
+      handle: ({ session, command, params, sessionId }) =>
+        handleTarget(session, command, params, sessionId)
+    }
+  ],
+  [
+    "Page",
+    {
+      commands: [
+        "enable",
+        "disable",
+        "setLifecycleEventsEnabled",
+        "navigate",
+        "reload",
+        "stopLoading",
+        "getFrameTree",
+        "getLayoutMetrics",
+        "captureScreenshot",
+        "printToPDF",
+        "setContent",
+        "bringToFront",
+        "setBypassCSP",
+        "addScriptToEvaluateOnNewDocument",
+        "removeScriptToEvaluateOnNewDocument",
+        "handleJavaScriptDialog",
+        "getNavigationHistory",
+        "navigateToHistoryEntry",
+        "resetNavigationHistory",
+        "startScreencast",
+        "stopScreencast",
+        "screencastFrameAck",
+        "setInterceptFileChooserDialog"
+      ],
+      events: [
+        "domContentEventFired",
+        "loadEventFired",
+        "lifecycleEvent",
+        "frameNavigated",
+        "javascriptDialogOpening",
+        "javascriptDialogClosed",
+        "screencastFrame",
+        "screencastVisibilityChanged",
+        "downloadWillBegin",
+        "downloadProgress"
+      ],
+      handle: onPage(handlePage)
+    }
+  ],
+  [
+    "Runtime",
+    {
+      commands: [
+        "enable",
+        "disable",
+        "evaluate",
+        "callFunctionOn",
+        "awaitPromise",
+        "getProperties",
+        "releaseObject",
+        "releaseObjectGroup",
+        "runIfWaitingForDebugger",
+        "addBinding",
+        "removeBinding"
+      ],
+      events: [
+        "executionContextCreated",
+        "consoleAPICalled",
+        "exceptionThrown",
+        "bindingCalled"
+      ],
+      handle: onPage(handleRuntime)
+    }
+  ],
+  [
+    "DOM",
+    {
+      commands: [
+        "enable",
+        "disable",
+        "getDocument",
+        "describeNode",
+        "resolveNode",
+        "requestNode",
+        "requestChildNodes",
+        "querySelector",
+        "querySelectorAll",
+        "getOuterHTML",
+        "setOuterHTML",
+        "getAttributes",
+        "setAttributeValue",
+        "removeAttribute",
+        "setNodeValue",
+        "removeNode",
+        "focus",
+        "scrollIntoViewIfNeeded",
+        "getBoxModel",
+        "getContentQuads",
+        "setFileInputFiles"
+      ],
+      events: ["documentUpdated", "setChildNodes"],
+      handle: onPage(handleDOM)
+    }
+  ],
+  [
+    "Accessibility",
+    {
+      commands: ["enable", "disable", "getFullAXTree", "queryAXTree"],
+      events: [],
+      handle: onPage(handleAccessibility)
+    }
+  ],
+  [
+    "Input",
+    {
+      commands: [
+        "dispatchMouseEvent",
+        "dispatchKeyEvent",
+        "insertText",
+        "dispatchTouchEvent"
+      ],
+      events: [],
+      handle: onPage((_session, page, command, params) =>
+        handleInput(page, command, params)
+      )
+    }
+  ],
+  [
+    "Network",
+    {
+      commands: [
+        "enable",
+        "disable",
+        "setCacheDisabled",
+        "setExtraHTTPHeaders",
+        "setUserAgentOverride",
+        "getResponseBody",
+        "getCookies",
+        "getAllCookies",
+        "setCookie",
+        "setCookies",
+        "deleteCookies",
+        "clearBrowserCookies"
+      ],
+      events: [
+        "requestWillBeSent",
+        "responseReceived",
+        "loadingFinished",
+        "loadingFailed"
+      ],
+      handle: onPage(handleNetwork)
+    }
+  ],
+  [
+    "Fetch",
+    {
+      commands: [
+        "enable",
+        "disable",
+        "continueRequest",
+        "fulfillRequest",
+        "failRequest",
+        "continueWithAuth",
+        "continueResponse",
+        "getResponseBody",
+        "takeResponseBodyAsStream"
+      ],
+      events: ["requestPaused", "authRequired"],
+      handle: onPage(handleFetch)
+    }
+  ],
+  [
+    "Emulation",
+    {
+      commands: [
+        "setDeviceMetricsOverride",
+        "clearDeviceMetricsOverride",
+        "setUserAgentOverride",
+        "setGeolocationOverride",
+        "clearGeolocationOverride",
+        "setTimezoneOverride",
+        "setLocaleOverride",
+        "setEmulatedMedia",
+        "setTouchEmulationEnabled",
+        "setDefaultBackgroundColorOverride",
+        "setCPUThrottlingRate",
+        "setScriptExecutionDisabled",
+        "setFocusEmulationEnabled"
+      ],
+      events: [],
+      handle: onPage(handleEmulation)
+    }
+  ],
+  [
+    "Log",
+    {
+      commands: ["enable", "disable", "clear"],
+      events: ["entryAdded"],
+      handle: onPage(handleLog)
+    }
+  ],
+  [
+    "Performance",
+    {
+      commands: ["enable", "disable", "getMetrics"],
+      events: [],
+      handle: onPage(handlePerformance)
+    }
+  ],
+  [
+    "Tracing",
+    {
+      commands: ["start", "end", "getCategories"],
+      events: ["dataCollected", "tracingComplete"],
+      handle: onPage(handleTracing)
+    }
+  ]
+]);
+
+/**
+ * Every implemented method as "Domain.command"
+ */
+function supportedMethods(): string[] {
+  return [...CDP_DOMAINS].flatMap(([domain, { commands }]) =>
+    commands.map((command) => `${domain}.${command}`)
+  );
+}
+
+/**
+ * The implemented subset of the protocol, shaped like Chrome's /json/protocol
+ */
+function protocolDescription() {
+  return {
+    version: { major: "1", minor: "3" },
+    domains: [...CDP_DOMAINS].map(([domain, { commands, events }]) => ({
+      domain,
+      commands: commands.map((name) => ({ name })),
+      events: events.map((name) => ({ name }))
+    }))
+  };
+}
+
+/**
+ * Handle a CDP method call
+ *
+ * @throws CDPError (-32601) for methods missing from CDP_DOMAINS
+ */
+async function handleCDPMethod(
+  session: CDPSession,
+  method: string,
+  params: Record<string, unknown>,
+  sessionId?: string
+): Promise<unknown> {
+  const [domain, command] = method.split(".");
+  const handler = CDP_DOMAINS.get(domain);
+  if (!handler?.commands.includes(command)) throw methodNotFound(method);
+
+  const targetId = targetIdFor(session, params, sessionId);
+  return handler.handle({
+    session,
+    command,
+    params,
+    sessionId,
+    targetId,
+    page: session.pages.get(targetId)
+  });
+}
+
+/**
+ * Apply session-wide settings made through earlier CDP calls to a new page
+ */
+async function applySessionOverrides(
+  session: CDPSession,
+  page: Page
+): Promise<void> {
+  if (session.extraHTTPHeaders.size > 0) {
+    await page.setExtraHTTPHeaders(
+      Object.fromEntries(session.extraHTTPHeaders)
+    );
+  }
+
+  for (const [identifier, source] of session.scriptsToEvaluateOnNewDocument) {
+    await addScriptToPage(session, page, identifier, source);
   }
 }
 
@@ -509,7 +1465,7 @@ async function handleCDPMethod(
 async function handleBrowser(
   session: CDPSession,
   command: string,
-  _params: Record<string, unknown>
+  params: Record<string, unknown>
 ): Promise<unknown> {
   switch (command) {
     case "getVersion":
@@ -521,231 +1477,3075 @@ async function handleBrowser(
         jsVersion: "V8"
       };
 
-    case "close":
-      await session.browser.close();
+    case "close":
+      await closeCDPSession(session);
+      return {};
+
+    // Downloads are stored in R2 rather than at downloadPath, which would be
+    // on the Browser Rendering host
+    case "setDownloadBehavior": {
+      const behavior = params.behavior as string;
+      if (!["deny", "allow", "allowAndName", "default"].includes(behavior)) {
+        throw new Error(`Invalid download behavior: ${behavior}`);
+      }
+
+      await session.stopDownloads?.();
+      session.stopDownloads = undefined;
+      session.browserClient ??= await session.browser
+        .target()
+        .createCDPSession();
+
+      if (behavior === "deny") {
+        await sendRaw(session.browserClient, "Browser.setDownloadBehavior", {
+          behavior
+        });
+      } else if (behavior !== "default") {
+        session.stopDownloads = await captureDownloads(
+          session,
+          session.browserClient,
+          !!params.eventsEnabled
+        );
+      }
+      return {};
+    }
+
+    default:
+      throw methodNotFound(`Browser.${command}`);
+  }
+}
+
+/**
+ * Store the session's downloads in R2, reporting them as Page.download* events
+ * to clients that enabled Page events and, with `eventsEnabled`, as
+ * Browser.download* events. Progress events carry the R2 key as `filePath`.
+ */
+function captureDownloads(
+  session: CDPSession,
+  client: PuppeteerCDPSession,
+  eventsEnabled: boolean
+): Promise<() => Promise<void>> {
+  const downloadPages = new Map<string, Page>(); // guid -> page it started in
+
+  const report = (
+    page: Page | undefined,
+    event: string,
+    params: Record<string, unknown>
+  ) => {
+    if (page && session.pageEventListeners.has(page)) {
+      sendPageEvent(session, page, `Page.${event}`, params);
+    }
+    if (eventsEnabled) sendEvent(session.ws, `Browser.${event}`, params);
+  };
+
+  return interceptDownloads(
+    client,
+    session.bucket,
+    downloadsPrefix(`cdp/${session.id}`),
+    {
+      pageFor: (frameId) =>
+        session.pages.get(frameId) ??
+        session.pages.get(session.defaultTargetId),
+      onWillBegin: (event) => {
+        const page = session.pages.get(event.frameId);
+        if (page) downloadPages.set(event.guid, page);
+        report(page, "downloadWillBegin", { ...event });
+      },
+      onProgress: (event) => {
+        report(downloadPages.get(event.guid), "downloadProgress", {
+          ...event
+        });
+        if (event.state !== "inProgress") downloadPages.delete(event.guid);
+      }
+    }
+  );
+}
+
+/** Id reported for the browser's default context, which has none in Puppeteer */
+const DEFAULT_BROWSER_CONTEXT_ID = "default";
+
+/**
+ * Find a browser context created with Target.createBrowserContext
+ */
+function browserContextFor(
+  session: CDPSession,
+  browserContextId: string
+): BrowserContext {
+  const context = session.browser
+    .browserContexts()
+    .find((context) => context.id === browserContextId);
+  if (!context) {
+    throw new Error(`Failed to find context with id ${browserContextId}`);
+  }
+  return context;
+}
+
+/**
+ * Build the CDP TargetInfo for one of the session's pages
+ */
+async function targetInfoFor(
+  session: CDPSession,
+  targetId: string
+): Promise<Record<string, unknown>> {
+  const page = session.pages.get(targetId);
+  if (!page) throw new Error(`Target not found: ${targetId}`);
+
+  return {
+    targetId,
+    type: "page",
+    title: await page.title(),
+    url: page.url(),
+    attached: true,
+    canAccessOpener: false,
+    browserContextId: page.browserContext().id ?? DEFAULT_BROWSER_CONTEXT_ID
+  };
+}
+
+/**
+ * Attach a new flat-mode session to a target and announce it to the client
+ */
+async function attachToTarget(
+  session: CDPSession,
+  targetId: string
+): Promise<string> {
+  const targetInfo = await targetInfoFor(session, targetId);
+  const sessionId = crypto.randomUUID();
+  session.attachedSessions.set(sessionId, targetId);
+
+  sendEvent(session.ws, "Target.attachedToTarget", {
+    sessionId,
+    targetInfo,
+    waitingForDebugger: false
+  });
+  return sessionId;
+}
+
+/**
+ * Detach flat-mode sessions, either one by id or all sessions of a target
+ */
+function detachFromTarget(
+  session: CDPSession,
+  match: { sessionId?: string; targetId?: string }
+) {
+  for (const [sessionId, targetId] of session.attachedSessions) {
+    if (match.sessionId && match.sessionId !== sessionId) continue;
+    if (match.targetId && match.targetId !== targetId) continue;
+
+    session.attachedSessions.delete(sessionId);
+    sendEvent(session.ws, "Target.detachedFromTarget", { sessionId, targetId });
+  }
+}
+
+/**
+ * Drop the state of a page that has been closed and tell the client it's gone
+ */
+function forgetTarget(session: CDPSession, targetId: string, page: Page) {
+  session.pages.delete(targetId);
+  for (const listeners of [
+    session.networkListeners,
+    session.pageEventListeners,
+    session.screencastListeners,
+    session.runtimeListeners,
+    session.logListeners
+  ]) {
+    listeners.get(page)?.();
+    listeners.delete(page);
+  }
+  session.interceptedPages.delete(page);
+  session.documentsRequested.delete(page);
+  session.devToolsClients.delete(page);
+
+  detachFromTarget(session, { targetId });
+  sendEvent(session.ws, "Target.targetDestroyed", { targetId });
+}
+
+/**
+ * Tell clients that asked for target discovery about a target's new url/title
+ */
+async function sendTargetInfoChanged(session: CDPSession, targetId: string) {
+  if (!session.discoverTargets) return;
+  sendEvent(session.ws, "Target.targetInfoChanged", {
+    targetInfo: await targetInfoFor(session, targetId)
+  });
+}
+
+/**
+ * Target domain handlers
+ *
+ * Called with the message's sessionId when a command arrives on a flat-mode
+ * page session rather than the browser connection.
+ */
+async function handleTarget(
+  session: CDPSession,
+  command: string,
+  params: Record<string, unknown>,
+  sessionId?: string
+): Promise<unknown> {
+  switch (command) {
+    case "createTarget": {
+      const url = (params.url as string) || "about:blank";
+      const browserContextId = params.browserContextId as string | undefined;
+      const page =
+        browserContextId && browserContextId !== DEFAULT_BROWSER_CONTEXT_ID
+          ? await browserContextFor(session, browserContextId).newPage()
+          : await session.browser.newPage();
+      const targetId = await targetIdOf(page);
+
+      session.pages.set(targetId, page);
+      await applySessionOverrides(session, page);
+
+      if (url !== "about:blank") {
+        await page.goto(url);
+      }
+
+      sendEvent(session.ws, "Target.targetCreated", {
+        targetInfo: await targetInfoFor(session, targetId)
+      });
+
+      if (session.autoAttach) {
+        await attachToTarget(session, targetId);
+      }
+
+      return { targetId };
+    }
+
+    case "closeTarget": {
+      const targetId = params.targetId as string;
+      const page = session.pages.get(targetId);
+
+      if (!page) {
+        throw new Error(`Target not found: ${targetId}`);
+      }
+
+      await page.close();
+      forgetTarget(session, targetId, page);
+
+      return { success: true };
+    }
+
+    // Each context has its own cookie jar and storage, like an incognito window
+    case "createBrowserContext": {
+      const context = await session.browser.createBrowserContext({
+        proxyServer: params.proxyServer as string | undefined,
+        proxyBypassList: (params.proxyBypassList as string | undefined)?.split(
+          /[,;]/
+        )
+      });
+      return { browserContextId: context.id };
+    }
+
+    case "disposeBrowserContext": {
+      const context = browserContextFor(
+        session,
+        params.browserContextId as string
+      );
+
+      for (const [targetId, page] of session.pages) {
+        if (page.browserContext() === context) {
+          forgetTarget(session, targetId, page);
+        }
+      }
+      await context.close();
+      return {};
+    }
+
+    case "getBrowserContexts":
+      return {
+        browserContextIds: session.browser
+          .browserContexts()
+          .flatMap((context) => context.id ?? [])
+      };
+
+    case "getTargets": {
+      const targets = [];
+      for (const targetId of session.pages.keys()) {
+        targets.push(await targetInfoFor(session, targetId));
+      }
+      return { targetInfos: targets };
+    }
+
+    case "getTargetInfo": {
+      const targetId =
+        (params.targetId as string | undefined) ??
+        (sessionId ? session.attachedSessions.get(sessionId) : undefined);
+
+      // Without a target, the question is about the browser itself
+      if (!targetId) {
+        return {
+          targetInfo: {
+            targetId: "browser",
+            type: "browser",
+            title: "",
+            url: "",
+            attached: true,
+            canAccessOpener: false
+          }
+        };
+      }
+      return { targetInfo: await targetInfoFor(session, targetId) };
+    }
+
+    case "activateTarget": {
+      const targetId = params.targetId as string;
+      const page = session.pages.get(targetId);
+      if (!page) throw new Error(`Target not found: ${targetId}`);
+      await page.bringToFront();
+      return {};
+    }
+
+    case "attachToTarget": {
+      const targetId = params.targetId as string;
+      if (!session.pages.has(targetId)) {
+        throw new Error(`Target not found: ${targetId}`);
+      }
+      return { sessionId: await attachToTarget(session, targetId) };
+    }
+
+    case "detachFromTarget": {
+      const detachSessionId = params.sessionId as string | undefined;
+      const targetId = params.targetId as string | undefined;
+      if (!detachSessionId && !targetId) {
+        throw new Error("sessionId or targetId is required");
+      }
+      detachFromTarget(session, { sessionId: detachSessionId, targetId });
+      return {};
+    }
+
+    case "setAutoAttach": {
+      // Pages have no child targets (workers, iframes) we can attach to
+      if (sessionId) return {};
+
+      session.autoAttach = !!params.autoAttach;
+      if (session.autoAttach) {
+        const attachedTargets = new Set(session.attachedSessions.values());
+        for (const targetId of session.pages.keys()) {
+          if (!attachedTargets.has(targetId)) {
+            await attachToTarget(session, targetId);
+          }
+        }
+      }
+      return {};
+    }
+
+    case "setDiscoverTargets": {
+      session.discoverTargets = !!params.discover;
+      if (session.discoverTargets) {
+        for (const targetId of session.pages.keys()) {
+          sendEvent(session.ws, "Target.targetCreated", {
+            targetInfo: await targetInfoFor(session, targetId)
+          });
+        }
+      }
+      return {};
+    }
+
+    default:
+      throw methodNotFound(`Target.${command}`);
+  }
+}
+
+/**
+ * Browser Page events forwarded to the client once Page.enable is called
+ */
+const FORWARDED_PAGE_EVENTS = [
+  "Page.domContentEventFired",
+  "Page.loadEventFired",
+  "Page.lifecycleEvent",
+  "Page.javascriptDialogOpening",
+  "Page.javascriptDialogClosed"
+] as const;
+
+/**
+ * Forward a page's load lifecycle and dialog events from its raw DevTools
+ * session. Chrome's frame id is swapped for the targetId the shim reports as
+ * the page's frame; child frame events are dropped since only the main frame
+ * is exposed. Returns a function that removes the listeners again.
+ */
+async function attachPageEvents(
+  session: CDPSession,
+  page: Page
+): Promise<() => void> {
+  const client = await devToolsClientFor(session, page);
+  const frameId = targetIdForPage(session, page);
+
+  const { frameTree } = (await sendRaw(client, "Page.getFrameTree")) as {
+    frameTree: { frame: { id: string } };
+  };
+  await sendRaw(client, "Page.enable");
+  await sendRaw(client, "Page.setLifecycleEventsEnabled", { enabled: true });
+
+  const listeners = FORWARDED_PAGE_EVENTS.map((method) => {
+    const listener = (event: object) => {
+      const eventFrameId = (event as { frameId?: string }).frameId;
+      if (eventFrameId === undefined) {
+        sendPageEvent(session, page, method, { ...event });
+      } else if (eventFrameId === frameTree.frame.id) {
+        sendPageEvent(session, page, method, { ...event, frameId });
+      }
+    };
+    client.on(method, listener);
+    return { method, listener };
+  });
+
+  return () => {
+    for (const { method, listener } of listeners) {
+      client.off(method, listener);
+    }
+  };
+}
+
+/**
+ * Inject a script into every document a page loads, remembering Puppeteer's
+ * identifier so Page.removeScriptToEvaluateOnNewDocument can undo it
+ */
+async function addScriptToPage(
+  session: CDPSession,
+  page: Page,
+  identifier: string,
+  source: string
+): Promise<void> {
+  const { identifier: pageIdentifier } =
+    await page.evaluateOnNewDocument(source);
+
+  let pageIdentifiers = session.newDocumentScriptIds.get(page);
+  if (!pageIdentifiers) {
+    pageIdentifiers = new Map();
+    session.newDocumentScriptIds.set(page, pageIdentifiers);
+  }
+  pageIdentifiers.set(identifier, pageIdentifier);
+}
+
+/**
+ * Forward screencast frames from a page's raw DevTools session to the client.
+ * Returns a function that removes the listeners again.
+ */
+function attachScreencast(
+  session: CDPSession,
+  page: Page,
+  client: PuppeteerCDPSession
+): () => void {
+  const onFrame = (event: object) => {
+    sendPageEvent(session, page, "Page.screencastFrame", { ...event });
+  };
+  const onVisibilityChanged = (event: object) => {
+    sendPageEvent(session, page, "Page.screencastVisibilityChanged", {
+      ...event
+    });
+  };
+
+  client.on("Page.screencastFrame", onFrame);
+  client.on("Page.screencastVisibilityChanged", onVisibilityChanged);
+
+  return () => {
+    client.off("Page.screencastFrame", onFrame);
+    client.off("Page.screencastVisibilityChanged", onVisibilityChanged);
+  };
+}
+
+/**
+ * Page domain handlers
+ */
+async function handlePage(
+  session: CDPSession,
+  page: Page,
+  command: string,
+  params: Record<string, unknown>
+): Promise<unknown> {
+  switch (command) {
+    case "navigate": {
+      const url = params.url as string;
+      if (!url) throw new Error("url is required");
+
+      const response = await page.goto(url, {
+        waitUntil: "load"
+      });
+      resetDOMNodes(session, page);
+
+      const frameId = targetIdForPage(session, page);
+      sendPageEvent(session, page, "Page.frameNavigated", {
+        frame: {
+          id: frameId,
+          url: page.url(),
+          securityOrigin: new URL(page.url()).origin,
+          mimeType: "text/html"
+        }
+      });
+
+      // With Page.enable the browser's own load event is already forwarded
+      if (!session.pageEventListeners.has(page)) {
+        sendPageEvent(session, page, "Page.loadEventFired", {
+          timestamp: Date.now() / 1000
+        });
+      }
+
+      await sendTargetInfoChanged(session, frameId);
+
+      return {
+        frameId,
+        loaderId: crypto.randomUUID(),
+        errorText: response?.ok() ? undefined : "Navigation failed"
+      };
+    }
+
+    case "reload": {
+      await page.reload();
+      resetDOMNodes(session, page);
+      return {};
+    }
+
+    case "getFrameTree": {
+      return {
+        frameTree: {
+          frame: {
+            id: targetIdForPage(session, page),
+            loaderId: crypto.randomUUID(),
+            url: page.url(),
+            securityOrigin: page.url() ? new URL(page.url()).origin : "",
+            mimeType: "text/html"
+          },
+          childFrames: []
+        }
+      };
+    }
+
+    case "captureScreenshot": {
+      const format = (params.format as string) || "png";
+      const quality = params.quality as number | undefined;
+      const clip = params.clip as
+        | { x: number; y: number; width: number; height: number }
+        | undefined;
+
+      // Puppeteer screenshot options require specific types
+      // Safe to cast if we validate inputs or trust upstream calls
+      const data = await page.screenshot({
+        type: format as "png" | "jpeg" | "webp",
+        encoding: "base64",
+        quality: format === "jpeg" ? quality : undefined,
+        clip: clip,
+        fullPage: params.fullPage as boolean | undefined
+      });
+
+      return { data };
+    }
+
+    case "enable":
+      if (!session.pageEventListeners.has(page)) {
+        session.pageEventListeners.set(
+          page,
+          await attachPageEvents(session, page)
+        );
+      }
+      return {};
+
+    case "disable":
+      session.pageEventListeners.get(page)?.();
+      session.pageEventListeners.delete(page);
+      return {};
+
+    // Lifecycle events are forwarded as part of Page.enable
+    case "setLifecycleEventsEnabled":
+      return {};
+
+    case "setContent": {
+      const html = params.html as string;
+      if (html === undefined) throw new Error("html is required");
+
+      await page.setContent(html);
+      resetDOMNodes(session, page);
+      return {};
+    }
+
+    case "printToPDF": {
+      // Streams would need the IO domain, so the PDF is always returned inline
+      const client = await devToolsClientFor(session, page);
+      return sendRaw(client, "Page.printToPDF", {
+        ...params,
+        transferMode: "ReturnAsBase64"
+      });
+    }
+
+    case "addScriptToEvaluateOnNewDocument": {
+      const source = params.source as string;
+      if (!source) throw new Error("source is required");
+
+      // Scripts are session-wide: applied to every open page and to targets
+      // created later through applySessionOverrides
+      const identifier = crypto.randomUUID();
+      session.scriptsToEvaluateOnNewDocument.set(identifier, source);
+      for (const target of session.pages.values()) {
+        await addScriptToPage(session, target, identifier, source);
+      }
+
+      if (params.runImmediately) {
+        await page.evaluate(source);
+      }
+      return { identifier };
+    }
+
+    case "removeScriptToEvaluateOnNewDocument": {
+      const identifier = params.identifier as string;
+      session.scriptsToEvaluateOnNewDocument.delete(identifier);
+
+      for (const target of session.pages.values()) {
+        const pageIdentifiers = session.newDocumentScriptIds.get(target);
+        const pageIdentifier = pageIdentifiers?.get(identifier);
+        if (pageIdentifier === undefined) continue;
+
+        await target.removeScriptToEvaluateOnNewDocument(pageIdentifier);
+        pageIdentifiers?.delete(identifier);
+      }
+      return {};
+    }
+
+    case "getNavigationHistory":
+    case "resetNavigationHistory":
+    case "getLayoutMetrics":
+    case "stopLoading":
+    case "handleJavaScriptDialog": {
+      const client = await devToolsClientFor(session, page);
+      return sendRaw(client, `Page.${command}`, params);
+    }
+
+    case "navigateToHistoryEntry": {
+      const client = await devToolsClientFor(session, page);
+      const navigation = page.waitForNavigation();
+
+      await sendRaw(client, "Page.navigateToHistoryEntry", params);
+      await navigation;
+      resetDOMNodes(session, page);
+      return {};
+    }
+
+    case "startScreencast": {
+      const client = await devToolsClientFor(session, page);
+      if (!session.screencastListeners.has(page)) {
+        session.screencastListeners.set(
+          page,
+          attachScreencast(session, page, client)
+        );
+      }
+
+      await sendRaw(client, "Page.startScreencast", {
+        format: params.format ?? "jpeg",
+        quality: params.quality,
+        maxWidth: params.maxWidth,
+        maxHeight: params.maxHeight,
+        everyNthFrame: params.everyNthFrame
+      });
+      return {};
+    }
+
+    case "stopScreencast": {
+      const client = await devToolsClientFor(session, page);
+      await sendRaw(client, "Page.stopScreencast");
+      session.screencastListeners.get(page)?.();
+      session.screencastListeners.delete(page);
+      return {};
+    }
+
+    case "screencastFrameAck": {
+      // Chrome stops sending frames until the previous one is acknowledged
+      const client = await devToolsClientFor(session, page);
+      await sendRaw(client, "Page.screencastFrameAck", {
+        sessionId: params.sessionId
+      });
+      return {};
+    }
+
+    case "bringToFront":
+      await page.bringToFront();
+      return {};
+
+    case "setBypassCSP":
+      await page.setBypassCSP(!!params.enabled);
+      return {};
+
+    case "setInterceptFileChooserDialog":
+      // Files can't be handed to the page anyway (see DOM.setFileInputFiles),
+      // so there is nothing to intercept; accepted for clients that ask
+      return {};
+
+    default:
+      throw methodNotFound(`Page.${command}`);
+  }
+}
+
+/**
+ * Description of a page value, produced inside the page for Runtime.RemoteObject
+ */
+interface RemoteValueDescription {
+  type: string;
+  subtype?: string;
+  className?: string;
+  description?: string;
+  value?: unknown;
+  unserializableValue?: string;
+  /** Whether the value can only be referenced through an objectId */
+  byReference: boolean;
+}
+
+/**
+ * Describes page values the way CDP RemoteObjects present them.
+ * Runs inside the page, so it must be self-contained.
+ */
+function describeRemoteValues(...values: unknown[]): RemoteValueDescription[] {
+  return values.map((value): RemoteValueDescription => {
+    const type = typeof value;
+
+    if (value === null) {
+      return {
+        type: "object",
+        subtype: "null",
+        value: null,
+        byReference: false
+      };
+    }
+    if (type === "undefined") return { type, byReference: false };
+    if (type === "number") {
+      const n = value as number;
+      if (Number.isFinite(n) && !Object.is(n, -0)) {
+        return { type, value: n, description: String(n), byReference: false };
+      }
+      const unserializable = Object.is(n, -0) ? "-0" : String(n);
+      return {
+        type,
+        unserializableValue: unserializable,
+        description: unserializable,
+        byReference: false
+      };
+    }
+    if (type === "bigint") {
+      return {
+        type,
+        unserializableValue: `${value}n`,
+        description: `${value}n`,
+        byReference: false
+      };
+    }
+    if (type === "string" || type === "boolean") {
+      return { type, value, description: String(value), byReference: false };
+    }
+    if (type === "symbol") {
+      return { type, description: String(value), byReference: true };
+    }
+    if (type === "function") {
+      return {
+        type,
+        className: "Function",
+        description: String(value),
+        byReference: true
+      };
+    }
+
+    const obj = value as object;
+    const className = obj.constructor?.name || "Object";
+    let subtype: string | undefined;
+    let description = className;
+
+    if (Array.isArray(obj)) {
+      subtype = "array";
+      description = `${className}(${obj.length})`;
+    } else if (obj instanceof Node) {
+      subtype = "node";
+      description = obj.nodeName.toLowerCase();
+      if (obj instanceof Element) {
+        if (obj.id) description += `#${obj.id}`;
+        for (const cls of Array.from(obj.classList)) description += `.${cls}`;
+      }
+    } else if (obj instanceof RegExp) {
+      subtype = "regexp";
+      description = String(obj);
+    } else if (obj instanceof Date) {
+      subtype = "date";
+      description = obj.toString();
+    } else if (obj instanceof Error) {
+      subtype = "error";
+      description = obj.stack || `${obj.name}: ${obj.message}`;
+    } else if (obj instanceof Map) {
+      subtype = "map";
+      description = `Map(${obj.size})`;
+    } else if (obj instanceof Set) {
+      subtype = "set";
+      description = `Set(${obj.size})`;
+    } else if (obj instanceof Promise) {
+      subtype = "promise";
+      description = "Promise";
+    }
+
+    return { type, subtype, className, description, byReference: true };
+  });
+}
+
+/**
+ * Convert CDP Runtime.CallArgument values into values Puppeteer can pass to the page
+ */
+function fromCallArguments(
+  session: CDPSession,
+  args: Array<{
+    value?: unknown;
+    unserializableValue?: string;
+    objectId?: string;
+  }>
+): unknown[] {
+  return args.map((arg) => {
+    if (arg.objectId) return handleForObjectId(session, arg.objectId);
+    if (arg.unserializableValue !== undefined) {
+      const raw = arg.unserializableValue;
+      if (raw.endsWith("n")) return BigInt(raw.slice(0, -1));
+      return raw === "-0" ? -0 : Number(raw);
+    }
+    return arg.value;
+  });
+}
+
+function handleForObjectId(session: CDPSession, objectId: string): JSHandle {
+  const handle = session.objectMap.get(objectId);
+  if (!handle) throw new Error("Could not find object with given id");
+  return handle;
+}
+
+/**
+ * Turn page handles into CDP RemoteObjects.
+ *
+ * Primitives are returned inline and their handles disposed. Everything else
+ * is registered in `session.objectMap` under a new objectId, unless the caller
+ * asked for the value itself with `returnByValue`.
+ */
+async function toRemoteObjects(
+  session: CDPSession,
+  page: Page,
+  handles: JSHandle[],
+  options: { returnByValue?: boolean; objectGroup?: string } = {}
+): Promise<Record<string, unknown>[]> {
+  if (handles.length === 0) return [];
+  const descriptions = await page.evaluate(describeRemoteValues, ...handles);
+
+  return Promise.all(
+    handles.map(async (handle, i) => {
+      const { byReference, ...remote } = descriptions[i];
+      const result: Record<string, unknown> = remote;
+
+      if (!byReference) {
+        await handle.dispose();
+        return result;
+      }
+
+      if (options.returnByValue) {
+        result.value = await handle.jsonValue().catch(() => undefined);
+        await handle.dispose();
+        return result;
+      }
+
+      const objectId = String(session.objectIdCounter++);
+      session.objectMap.set(objectId, handle);
+      if (options.objectGroup) {
+        const group =
+          session.objectGroups.get(options.objectGroup) ?? new Set();
+        group.add(objectId);
+        session.objectGroups.set(options.objectGroup, group);
+      }
+      result.objectId = objectId;
+      return result;
+    })
+  );
+}
+
+/**
+ * Release a remote object and its Puppeteer handle
+ */
+async function releaseObject(session: CDPSession, objectId: string) {
+  const handle = session.objectMap.get(objectId);
+  session.objectMap.delete(objectId);
+  for (const group of session.objectGroups.values()) group.delete(objectId);
+  // The page may have navigated away, in which case the handle is already gone
+  await handle?.dispose().catch(() => {});
+}
+
+/**
+ * Build a Runtime evaluation result from the `{ value } | { error }` box the
+ * page-side wrappers return, so thrown values become exceptionDetails.
+ */
+async function toEvaluationResult(
+  session: CDPSession,
+  page: Page,
+  box: JSHandle,
+  options: { returnByValue?: boolean; objectGroup?: string }
+): Promise<unknown> {
+  const threw = await box.evaluate((b) => "error" in (b as object));
+  const handle = await box.evaluateHandle(
+    (b, key) => (b as Record<string, unknown>)[key],
+    threw ? "error" : "value"
+  );
+  await box.dispose();
+
+  const [remote] = await toRemoteObjects(session, page, [handle], options);
+  if (!threw) return { result: remote };
+
+  return {
+    result: remote,
+    exceptionDetails: {
+      exceptionId: session.objectIdCounter++,
+      text: "Uncaught",
+      lineNumber: 0,
+      columnNumber: 0,
+      exception: remote
+    }
+  };
+}
+
+/**
+ * Puppeteer console message types whose CDP name differs
+ */
+const CDP_CONSOLE_TYPES: Record<string, string> = {
+  warn: "warning",
+  verbose: "debug"
+};
+
+/**
+ * Forward a page's console calls as Runtime.consoleAPICalled and its uncaught
+ * errors as Runtime.exceptionThrown. Returns a function that stops forwarding.
+ */
+function attachRuntimeEvents(session: CDPSession, page: Page): () => void {
+  // Arguments are described asynchronously; chaining keeps events in order
+  let pending = Promise.resolve();
+
+  const onConsole = (message: ConsoleMessage) => {
+    const timestamp = Date.now();
+    pending = pending.then(async () => {
+      const args = await toRemoteObjects(session, page, message.args(), {
+        objectGroup: "console"
+      }).catch(() => [{ type: "string", value: message.text() }]);
+
+      sendPageEvent(session, page, "Runtime.consoleAPICalled", {
+        type: CDP_CONSOLE_TYPES[message.type()] ?? message.type(),
+        args,
+        executionContextId: 1,
+        timestamp,
+        stackTrace: {
+          callFrames: message.stackTrace().map((location) => ({
+            functionName: "",
+            scriptId: "",
+            url: location.url ?? "",
+            lineNumber: location.lineNumber ?? 0,
+            columnNumber: location.columnNumber ?? 0
+          }))
+        }
+      });
+    });
+  };
+
+  const onPageError = (error: Error) => {
+    const timestamp = Date.now();
+    pending = pending.then(() => {
+      sendPageEvent(session, page, "Runtime.exceptionThrown", {
+        timestamp,
+        exceptionDetails: {
+          exceptionId: session.objectIdCounter++,
+          text: "Uncaught",
+          lineNumber: 0,
+          columnNumber: 0,
+          url: page.url(),
+          exception: {
+            type: "object",
+            subtype: "error",
+            className: error.name,
+            description: error.stack ?? `${error.name}: ${error.message}`
+          },
+          executionContextId: 1
+        }
+      });
+    });
+  };
+
+  page.on("console", onConsole);
+  page.on("pageerror", onPageError);
+
+  return () => {
+    page.off("console", onConsole);
+    page.off("pageerror", onPageError);
+  };
+}
+
+/**
+ * Forward failed and erroring resource loads as Log.entryAdded, worded like
+ * Chrome's own console messages. Returns a function that stops forwarding.
+ */
+function attachLogEvents(session: CDPSession, page: Page): () => void {
+  const addEntry = (request: HTTPRequest, text: string) => {
+    sendPageEvent(session, page, "Log.entryAdded", {
+      entry: {
+        source: "network",
+        level: "error",
+        text,
+        timestamp: Date.now(),
+        url: request.url(),
+        networkRequestId: requestIdFor(session, request)
+      }
+    });
+  };
+
+  const onRequestFailed = (request: HTTPRequest) => {
+    const errorText = request.failure()?.errorText ?? "net::ERR_FAILED";
+    addEntry(request, `Failed to load resource: ${errorText}`);
+  };
+
+  const onResponse = (response: HTTPResponse) => {
+    if (response.status() < 400) return;
+    addEntry(
+      response.request(),
+      `Failed to load resource: the server responded with a status of ${response.status()} (${response.statusText()})`
+    );
+  };
+
+  page.on("requestfailed", onRequestFailed);
+  page.on("response", onResponse);
+
+  return () => {
+    page.off("requestfailed", onRequestFailed);
+    page.off("response", onResponse);
+  };
+}
+
+/**
+ * Log domain handlers
+ */
+async function handleLog(
+  session: CDPSession,
+  page: Page,
+  command: string,
+  _params: Record<string, unknown>
+): Promise<unknown> {
+  switch (command) {
+    case "enable":
+      if (!session.logListeners.has(page)) {
+        session.logListeners.set(page, attachLogEvents(session, page));
+      }
+      return {};
+
+    case "disable":
+      session.logListeners.get(page)?.();
+      session.logListeners.delete(page);
+      return {};
+
+    // Entries aren't buffered, so there is nothing to clear
+    case "clear":
+      return {};
+
+    default:
+      throw methodNotFound(`Log.${command}`);
+  }
+}
+
+/**
+ * Runtime domain handlers
+ *
+ * Objects are handed out as CDP RemoteObjects whose objectIds are backed by
+ * Puppeteer JSHandles in `session.objectMap`.
+ */
+async function handleRuntime(
+  session: CDPSession,
+  page: Page,
+  command: string,
+  params: Record<string, unknown>
+): Promise<unknown> {
+  const options = {
+    returnByValue: params.returnByValue as boolean | undefined,
+    objectGroup: params.objectGroup as string | undefined
+  };
+
+  switch (command) {
+    case "enable": {
+      const url = page.url();
+      sendPageEvent(session, page, "Runtime.executionContextCreated", {
+        context: {
+          id: 1,
+          origin: url.startsWith("http") ? new URL(url).origin : "",
+          name: "",
+          uniqueId: targetIdForPage(session, page),
+          auxData: {
+            isDefault: true,
+            type: "default",
+            frameId: targetIdForPage(session, page)
+          }
+        }
+      });
+
+      if (!session.runtimeListeners.has(page)) {
+        session.runtimeListeners.set(page, attachRuntimeEvents(session, page));
+      }
+      return {};
+    }
+
+    case "disable":
+      session.runtimeListeners.get(page)?.();
+      session.runtimeListeners.delete(page);
+      return {};
+
+    case "evaluate": {
+      const expression = params.expression as string;
+      if (!expression) throw new Error("expression is required");
+
+      // Results are boxed so a returned promise isn't awaited unless asked for
+      const box = await page.evaluateHandle(
+        async (expr, awaitPromise) => {
+          try {
+            // Indirect eval runs the expression in global scope
+            // eslint-disable-next-line no-eval
+            const value = (0, eval)(expr);
+            return { value: awaitPromise ? await value : value };
+          } catch (error) {
+            return { error };
+          }
+        },
+        expression,
+        !!params.awaitPromise
+      );
+      return toEvaluationResult(session, page, box, options);
+    }
+
+    case "callFunctionOn": {
+      const functionDeclaration = params.functionDeclaration as string;
+      if (!functionDeclaration) {
+        throw new Error("functionDeclaration is required");
+      }
+
+      const thisArg = params.objectId
+        ? handleForObjectId(session, params.objectId as string)
+        : undefined;
+      const args = fromCallArguments(
+        session,
+        (params.arguments as Parameters<typeof fromCallArguments>[1]) || []
+      );
+
+      const box = await page.evaluateHandle(
+        async (source, awaitPromise, self, ...fnArgs) => {
+          try {
+            // eslint-disable-next-line no-eval
+            const fn = (0, eval)(`(${source})`) as (...a: unknown[]) => unknown;
+            const value = fn.apply(self, fnArgs);
+            return { value: awaitPromise ? await value : value };
+          } catch (error) {
+            return { error };
+          }
+        },
+        functionDeclaration,
+        !!params.awaitPromise,
+        thisArg,
+        ...args
+      );
+      return toEvaluationResult(session, page, box, options);
+    }
+
+    case "awaitPromise": {
+      const promise = handleForObjectId(
+        session,
+        params.promiseObjectId as string
+      );
+      const box = await page.evaluateHandle(async (p) => {
+        try {
+          return { value: await p };
+        } catch (error) {
+          return { error };
+        }
+      }, promise);
+      return toEvaluationResult(session, page, box, options);
+    }
+
+    case "getProperties": {
+      const handle = handleForObjectId(session, params.objectId as string);
+
+      // One entry per property; accessors report their getter/setter functions
+      const listing = await handle.evaluateHandle(
+        (obj, ownProperties, accessorPropertiesOnly) => {
+          const entries: Array<{
+            name: string;
+            isOwn: boolean;
+            enumerable: boolean;
+            configurable: boolean;
+            writable?: boolean;
+            isAccessor: boolean;
+            value?: unknown;
+            get?: unknown;
+            set?: unknown;
+          }> = [];
+          const seen = new Set<string>();
+          let current: object | null = Object(obj);
+          let isOwn = true;
+
+          while (current) {
+            for (const name of Object.getOwnPropertyNames(current)) {
+              if (seen.has(name)) continue;
+              seen.add(name);
+              const descriptor = Object.getOwnPropertyDescriptor(
+                current,
+                name
+              )!;
+              const isAccessor = "get" in descriptor || "set" in descriptor;
+              if (accessorPropertiesOnly && !isAccessor) continue;
+              entries.push({
+                name,
+                isOwn,
+                enumerable: !!descriptor.enumerable,
+                configurable: !!descriptor.configurable,
+                writable: isAccessor ? undefined : !!descriptor.writable,
+                isAccessor,
+                value: isAccessor ? undefined : descriptor.value,
+                get: descriptor.get,
+                set: descriptor.set
+              });
+            }
+            if (ownProperties) break;
+            current = Object.getPrototypeOf(current);
+            isOwn = false;
+          }
+          return entries;
+        },
+        !!params.ownProperties,
+        !!params.accessorPropertiesOnly
+      );
+
+      const entries = await listing.evaluate((list) =>
+        list.map(({ value: _v, get, set, ...meta }) => ({
+          ...meta,
+          hasGet: get !== undefined,
+          hasSet: set !== undefined
+        }))
+      );
+      // Lay out [value, get, set] per entry so handles come back in order
+      const slots = await listing.evaluateHandle((list) =>
+        list.flatMap((e) => [e.value, e.get, e.set])
+      );
+      await listing.dispose();
+      const slotHandles = await slots.getProperties();
+      await slots.dispose();
+
+      const handles = entries.flatMap((_, i) =>
+        [0, 1, 2].map((offset) => slotHandles.get(String(i * 3 + offset))!)
+      );
+      const remotes = await toRemoteObjects(session, page, handles, options);
+
+      return {
+        result: entries.map((entry, i) => {
+          const [value, get, set] = remotes.slice(i * 3, i * 3 + 3);
+          return {
+            name: entry.name,
+            isOwn: entry.isOwn,
+            enumerable: entry.enumerable,
+            configurable: entry.configurable,
+            writable: entry.writable,
+            ...(entry.isAccessor
+              ? {
+                  get: entry.hasGet ? get : { type: "undefined" },
+                  set: entry.hasSet ? set : { type: "undefined" }
+                }
+              : { value })
+          };
+        }),
+        internalProperties: []
+      };
+    }
+
+    case "releaseObject":
+      await releaseObject(session, params.objectId as string);
+      return {};
+
+    case "releaseObjectGroup": {
+      const groupName = params.objectGroup as string;
+      const group = session.objectGroups.get(groupName);
+      session.objectGroups.delete(groupName);
+      for (const objectId of group ?? []) {
+        await releaseObject(session, objectId);
+      }
+      return {};
+    }
+
+    case "runIfWaitingForDebugger":
+      // Targets are never paused waiting for a debugger
+      return {};
+
+    case "addBinding":
+    case "removeBinding": {
+      // Bindings live on the raw session, which forwards Runtime.bindingCalled
+      const client = await devToolsClientFor(session, page);
+      await sendRaw(client, `Runtime.${command}`, params);
+      return {};
+    }
+
+    default:
+      throw methodNotFound(`Runtime.${command}`);
+  }
+}
+
+/**
+ * A node as Chrome's DOM.getDocument and DOM.describeNode describe it
+ */
+interface RawDOMNode {
+  backendNodeId: number;
+  children?: RawDOMNode[];
+  contentDocument?: RawDOMNode;
+  templateContent?: RawDOMNode;
+  shadowRoots?: RawDOMNode[];
+  pseudoElements?: RawDOMNode[];
+  [key: string]: unknown;
+}
+
+type DOMOperation =
+  | "querySelector"
+  | "querySelectorAll"
+  | "getOuterHTML"
+  | "setOuterHTML"
+  | "getAttributes"
+  | "setAttributeValue"
+  | "removeAttribute"
+  | "setNodeValue"
+  | "removeNode"
+  | "focus"
+  | "scrollIntoView"
+  | "getBoxModel";
+
+/**
+ * Runs a single DOM operation on a node inside the page. querySelector and
+ * querySelectorAll return nodes rather than values. Everything this function
+ * needs must live inside it since it is serialized into the page.
+ */
+function runDOMOperation(node: Node, op: DOMOperation, arg?: unknown) {
+  const el = node as Element;
+
+  switch (op) {
+    case "querySelector":
+      return (node as ParentNode).querySelector(arg as string);
+
+    case "querySelectorAll":
+      return Array.from((node as ParentNode).querySelectorAll(arg as string));
+
+    case "getOuterHTML":
+      if (node.nodeType === Node.DOCUMENT_NODE) {
+        return document.documentElement.outerHTML;
+      }
+      return node.nodeType === Node.ELEMENT_NODE
+        ? el.outerHTML
+        : node.textContent || "";
+
+    case "setOuterHTML":
+      el.outerHTML = arg as string;
+      return null;
+
+    case "getAttributes":
+      return Array.from(el.attributes).flatMap((a) => [a.name, a.value]);
+
+    case "setAttributeValue": {
+      const { name, value } = arg as { name: string; value: string };
+      el.setAttribute(name, value);
+      return null;
+    }
+
+    case "removeAttribute":
+      el.removeAttribute(arg as string);
+      return null;
+
+    case "setNodeValue":
+      node.nodeValue = arg as string;
+      return null;
+
+    case "removeNode":
+      (node as ChildNode).remove();
+      return null;
+
+    case "focus":
+      (node as HTMLElement).focus();
+      return null;
+
+    case "scrollIntoView":
+      el.scrollIntoView({ block: "center", inline: "center" });
+      return null;
+
+    case "getBoxModel": {
+      const target =
+        node.nodeType === Node.ELEMENT_NODE ? el : node.parentElement!;
+      const rect = target.getBoundingClientRect();
+      const style = getComputedStyle(target);
+      const px = (value: string) => Number.parseFloat(value) || 0;
+      const edges = (prefix: string, suffix = "") => ({
+        left: px(style.getPropertyValue(`${prefix}-left${suffix}`)),
+        top: px(style.getPropertyValue(`${prefix}-top${suffix}`)),
+        right: px(style.getPropertyValue(`${prefix}-right${suffix}`)),
+        bottom: px(style.getPropertyValue(`${prefix}-bottom${suffix}`))
+      });
+      type Box = { left: number; top: number; right: number; bottom: number };
+      // Negative edges grow the box, positive ones shrink it
+      const shrink = (box: Box, by: Box): Box => ({
+        left: box.left + by.left,
+        top: box.top + by.top,
+        right: box.right - by.right,
+        bottom: box.bottom - by.bottom
+      });
+      const negate = (by: Box): Box => ({
+        left: -by.left,
+        top: -by.top,
+        right: -by.right,
+        bottom: -by.bottom
+      });
+      const quad = (box: Box) => [
+        box.left,
+        box.top,
+        box.right,
+        box.top,
+        box.right,
+        box.bottom,
+        box.left,
+        box.bottom
+      ];
+
+      const borderBox: Box = {
+        left: rect.left,
+        top: rect.top,
+        right: rect.right,
+        bottom: rect.bottom
+      };
+      const paddingBox = shrink(borderBox, edges("border", "-width"));
+      const contentBox = shrink(paddingBox, edges("padding"));
+      const marginBox = shrink(borderBox, negate(edges("margin")));
+
+      return {
+        content: quad(contentBox),
+        padding: quad(paddingBox),
+        border: quad(borderBox),
+        margin: quad(marginBox),
+        width: Math.round(rect.width),
+        height: Math.round(rect.height)
+      };
+    }
+
+    default:
+      throw new Error(`Unsupported DOM operation: ${op}`);
+  }
+}
+
+/**
+ * Finds the selector path of a node (`html > body:nth-child(2) > ...`, with
+ * other nodes as `<parent path>/#child[<index>]`), or the node at a path.
+ *
+ * Puppeteer's session and the page's raw DevTools session can't share object
+ * ids, so paths carry a node from one to the other. They are resolved right
+ * away and never kept. Everything this function needs must live inside it
+ * since it is serialized into the page.
+ */
+function locateDOMNode(target: Node | string): Node | string {
+  const pathOf = (node: Node): string => {
+    if (node.nodeType === Node.DOCUMENT_NODE) return "#document";
+    const parent = node.parentNode;
+    if (!parent) throw new Error("Node is not in the document");
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      const index = Array.from(parent.childNodes).indexOf(node as ChildNode);
+      return `${pathOf(parent)}/#child[${index}]`;
+    }
+    const el = node as Element;
+    if (parent.nodeType === Node.DOCUMENT_NODE) return el.localName;
+    if (parent.nodeType !== Node.ELEMENT_NODE) {
+      throw new Error("Node is not addressable");
+    }
+    const index = Array.from((parent as Element).children).indexOf(el) + 1;
+    return `${pathOf(parent)} > ${el.localName}:nth-child(${index})`;
+  };
+
+  if (typeof target !== "string") return pathOf(target);
+
+  const [selector, childIndex] = target.split("/#child[");
+  const base =
+    selector === "#document" ? document : document.querySelector(selector);
+  const node =
+    childIndex === undefined
+      ? base
+      : base?.childNodes[Number.parseInt(childIndex, 10)];
+  if (!node) throw new Error("Could not find node with given id");
+  return node;
+}
+
+/**
+ * Convert one of Chrome's DOM nodes into the shim's.
+ *
+ * The shim's nodeIds are Chrome's backendNodeIds: they belong to the page's
+ * renderer, stay the same for as long as the node exists and are valid in
+ * every session, so they need no bookkeeping and only go stale with the node.
+ */
+function toShimNode(
+  node: RawDOMNode,
+  parentId?: number
+): Record<string, unknown> {
+  const nodeId = node.backendNodeId;
+  const child = (childNode: RawDOMNode) => toShimNode(childNode, nodeId);
+  return {
+    ...node,
+    nodeId,
+    parentId,
+    children: node.children?.map(child),
+    contentDocument: node.contentDocument && toShimNode(node.contentDocument),
+    templateContent: node.templateContent && child(node.templateContent),
+    shadowRoots: node.shadowRoots?.map(child),
+    pseudoElements: node.pseudoElements?.map(child)
+  };
+}
+
+/**
+ * Tell a client that has asked for a page's document that it was replaced,
+ * e.g. after a navigation
+ */
+function resetDOMNodes(session: CDPSession, page: Page) {
+  if (!session.documentsRequested.delete(page)) return;
+  sendPageEvent(session, page, "DOM.documentUpdated", {});
+}
+
+/**
+ * Run a function on a node in the page's raw DevTools session, as
+ * `fn(node, ...args)`
+ *
+ * @returns The function's result, by value unless `byValue` is false, in
+ * which case it is an object in `objectGroup`
+ */
+async function callOnNode<Args extends unknown[]>(
+  client: PuppeteerCDPSession,
+  backendNodeId: number,
+  objectGroup: string,
+  fn: (node: Node, ...args: Args) => unknown,
+  args: Args,
+  byValue = true
+): Promise<{ value?: unknown; objectId?: string }> {
+  let objectId: string;
+  try {
+    ({
+      object: { objectId }
+    } = (await sendRaw(client, "DOM.resolveNode", {
+      backendNodeId,
+      objectGroup
+    })) as { object: { objectId: string } });
+  } catch {
+    throw new Error(`Could not find node with given id: ${backendNodeId}`);
+  }
+
+  const { result, exceptionDetails } = (await sendRaw(
+    client,
+    "Runtime.callFunctionOn",
+    {
+      objectId,
+      functionDeclaration: `function (...args) { return (${fn})(this, ...args); }`,
+      arguments: args.map((value) => ({ value })),
+      returnByValue: byValue,
+      objectGroup
+    }
+  )) as {
+    result: { value?: unknown; objectId?: string };
+    exceptionDetails?: { text: string; exception?: { description?: string } };
+  };
+  if (exceptionDetails) {
+    const description =
+      exceptionDetails.exception?.description ?? exceptionDetails.text;
+    throw new Error(description.split("\n")[0].replace(/^Error: /, ""));
+  }
+  return result;
+}
+
+/**
+ * The backendNodeId of a node held as an object in the raw session
+ */
+async function backendNodeIdOfObject(
+  client: PuppeteerCDPSession,
+  objectId: string
+): Promise<number> {
+  const { node } = (await sendRaw(client, "DOM.describeNode", {
+    objectId
+  })) as { node: RawDOMNode };
+  return node.backendNodeId;
+}
+
+/**
+ * The backendNodeId (and so shim nodeId) of the node a command addresses by
+ * nodeId, backendNodeId or objectId
+ */
+async function backendNodeIdFor(
+  session: CDPSession,
+  page: Page,
+  client: PuppeteerCDPSession,
+  objectGroup: string,
+  params: Record<string, unknown>
+): Promise<number> {
+  if (params.objectId) {
+    // The object lives in Puppeteer's session; find the same node in ours
+    const handle = handleForObjectId(session, params.objectId as string);
+    const path = await page.evaluate(locateDOMNode, handle as never);
+    const { result, exceptionDetails } = (await sendRaw(
+      client,
+      "Runtime.evaluate",
+      {
+        expression: `(${locateDOMNode})(${JSON.stringify(path)})`,
+        objectGroup
+      }
+    )) as { result: { objectId?: string }; exceptionDetails?: unknown };
+    if (exceptionDetails || !result.objectId) {
+      throw new Error("Could not find node with given id");
+    }
+    return backendNodeIdOfObject(client, result.objectId);
+  }
+
+  const nodeId = params.nodeId ?? params.backendNodeId;
+  if (typeof nodeId !== "number" || nodeId <= 0) {
+    throw new Error(
+      "Either nodeId, backendNodeId or objectId must be specified"
+    );
+  }
+  return nodeId;
+}
+
+/**
+ * DOM domain handlers
+ *
+ * Commands run on the page's raw DevTools session, where the shim's nodeIds
+ * (Chrome's backendNodeIds, see toShimNode) are resolved to nodes on every
+ * call. Node objects each command needs are released when it's done.
+ */
+async function handleDOM(
+  session: CDPSession,
+  page: Page,
+  command: string,
+  params: Record<string, unknown>
+): Promise<unknown> {
+  const client = await devToolsClientFor(session, page);
+  const objectGroup = `shim-dom-${session.objectIdCounter++}`;
+
+  // Most commands identify their node by nodeId, backendNodeId or objectId
+  const nodeId = () =>
+    backendNodeIdFor(session, page, client, objectGroup, params);
+  const run = async (op: DOMOperation, arg?: unknown, byValue = true) =>
+    callOnNode(
+      client,
+      await nodeId(),
+      objectGroup,
+      runDOMOperation,
+      [op, arg],
+      byValue
+    );
+
+  try {
+    switch (command) {
+      case "enable":
+      case "disable":
+        return {};
+
+      case "getDocument": {
+        const { root } = (await sendRaw(client, "DOM.getDocument", {
+          depth: params.depth ?? 1,
+          pierce: params.pierce
+        })) as { root: RawDOMNode };
+        session.documentsRequested.add(page);
+        return { root: toShimNode(root) };
+      }
+
+      case "describeNode": {
+        const { node } = (await sendRaw(client, "DOM.describeNode", {
+          backendNodeId: await nodeId(),
+          depth: params.depth,
+          pierce: params.pierce
+        })) as { node: RawDOMNode };
+        return { node: toShimNode(node) };
+      }
+
+      case "requestChildNodes": {
+        const parentId = await nodeId();
+        const { node } = (await sendRaw(client, "DOM.describeNode", {
+          backendNodeId: parentId,
+          depth: params.depth ?? 1,
+          pierce: params.pierce
+        })) as { node: RawDOMNode };
+        sendPageEvent(session, page, "DOM.setChildNodes", {
+          parentId,
+          nodes: (node.children ?? []).map((child) =>
+            toShimNode(child, parentId)
+          )
+        });
+        return {};
+      }
+
+      case "querySelector": {
+        const selector = params.selector as string;
+        if (!selector) throw new Error("selector is required");
+        const { objectId } = await run("querySelector", selector, false);
+        return {
+          nodeId: objectId ? await backendNodeIdOfObject(client, objectId) : 0
+        };
+      }
+
+      case "querySelectorAll": {
+        const selector = params.selector as string;
+        if (!selector) throw new Error("selector is required");
+        const { objectId } = await run("querySelectorAll", selector, false);
+        const { result } = (await sendRaw(client, "Runtime.getProperties", {
+          objectId,
+          ownProperties: true
+        })) as {
+          result: Array<{ name: string; value?: { objectId?: string } }>;
+        };
+        const objectIds = result.flatMap(({ name, value }) =>
+          /^\d+$/.test(name) && value?.objectId ? [value.objectId] : []
+        );
+        const nodeIds = await mapConcurrently(
+          objectIds,
+          RAW_COMMAND_CONCURRENCY,
+          (matchId) => backendNodeIdOfObject(client, matchId)
+        );
+        return { nodeIds };
+      }
+
+      case "getOuterHTML": {
+        const { value } = await run("getOuterHTML");
+        return { outerHTML: value };
+      }
+
+      case "setOuterHTML":
+        await run("setOuterHTML", params.outerHTML);
+        return {};
+
+      case "getAttributes": {
+        const { value } = await run("getAttributes");
+        return { attributes: value };
+      }
+
+      case "setAttributeValue":
+        await run("setAttributeValue", {
+          name: params.name,
+          value: params.value
+        });
+        return {};
+
+      case "removeAttribute":
+        await run("removeAttribute", params.name);
+        return {};
+
+      case "setNodeValue":
+        await run("setNodeValue", params.value);
+        return {};
+
+      case "removeNode":
+        await run("removeNode");
+        return {};
+
+      case "focus":
+        await run("focus");
+        return {};
+
+      case "scrollIntoViewIfNeeded":
+        await run("scrollIntoView");
+        return {};
+
+      case "getBoxModel": {
+        const { value } = await run("getBoxModel");
+        return { model: value };
+      }
+
+      case "getContentQuads": {
+        const { value } = await run("getBoxModel");
+        return { quads: [(value as { content: number[] }).content] };
+      }
+
+      case "resolveNode": {
+        // Runtime objects live in Puppeteer's session; carry the node over
+        const { value: path } = await callOnNode(
+          client,
+          await nodeId(),
+          objectGroup,
+          locateDOMNode,
+          []
+        );
+        const handle = await page.evaluateHandle(locateDOMNode, path as string);
+        const [object] = await toRemoteObjects(session, page, [handle], {
+          objectGroup: params.objectGroup as string | undefined
+        });
+        return { object };
+      }
+
+      case "requestNode":
+        return { nodeId: await nodeId() };
+
+      case "setFileInputFiles":
+        // Files would have to exist on the Browser Rendering host, which we can't reach
+        throw new Error(
+          "DOM.setFileInputFiles is not supported by Browser Rendering"
+        );
+
+      default:
+        throw methodNotFound(`DOM.${command}`);
+    }
+  } finally {
+    await sendRaw(client, "Runtime.releaseObjectGroup", { objectGroup }).catch(
+      () => {}
+    );
+  }
+}
+
+/** Most raw DevTools commands kept in flight for a single shim command */
+const RAW_COMMAND_CONCURRENCY = 16;
+
+/**
+ * Map over items with at most `limit` calls to `fn` in flight at once
+ */
+async function mapConcurrently<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const work = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, work)
+  );
+  return results;
+}
+
+/**
+ * Accessibility domain handlers
+ *
+ * Trees come from the page's raw DevTools session. Their backendDOMNodeIds
+ * are already the shim's DOM nodeIds (see toShimNode), and queryAXTree takes
+ * a node the same way DOM commands do.
+ */
+async function handleAccessibility(
+  session: CDPSession,
+  page: Page,
+  command: string,
+  params: Record<string, unknown>
+): Promise<unknown> {
+  const client = await devToolsClientFor(session, page);
+
+  switch (command) {
+    case "enable":
+    case "disable":
+      return sendRaw(client, `Accessibility.${command}`);
+
+    case "getFullAXTree":
+      return sendRaw(client, "Accessibility.getFullAXTree", {
+        depth: params.depth,
+        frameId: params.frameId
+      });
+
+    case "queryAXTree": {
+      const objectGroup = "shim-accessibility";
+      try {
+        return await sendRaw(client, "Accessibility.queryAXTree", {
+          backendNodeId: await backendNodeIdFor(
+            session,
+            page,
+            client,
+            objectGroup,
+            params
+          ),
+          accessibleName: params.accessibleName,
+          role: params.role
+        });
+      } finally {
+        await sendRaw(client, "Runtime.releaseObjectGroup", {
+          objectGroup
+        }).catch(() => {});
+      }
+    }
+
+    default:
+      throw methodNotFound(`Accessibility.${command}`);
+  }
+}
+
+/**
+ * Performance domain handlers
+ */
+async function handlePerformance(
+  session: CDPSession,
+  page: Page,
+  command: string,
+  params: Record<string, unknown>
+): Promise<unknown> {
+  const client = await devToolsClientFor(session, page);
+
+  switch (command) {
+    case "enable":
+    case "disable":
+    case "getMetrics":
+      return sendRaw(client, `Performance.${command}`, params);
+
+    default:
+      throw methodNotFound(`Performance.${command}`);
+  }
+}
+
+/**
+ * Send a finished trace to the client. Small traces arrive as the usual
+ * Tracing.dataCollected events; larger ones would overrun the socket, so they
+ * are stored in R2 and Tracing.tracingComplete carries their `traceId` instead.
+ */
+async function deliverTrace(
+  session: CDPSession,
+  page: Page,
+  chunks: unknown[][],
+  bytes: number,
+  dataLossOccurred: boolean
+) {
+  if (bytes <= CDP_TRACE_INLINE_BYTES) {
+    for (const value of chunks) {
+      sendPageEvent(session, page, "Tracing.dataCollected", { value });
+    }
+    sendPageEvent(session, page, "Tracing.tracingComplete", {
+      dataLossOccurred
+    });
+    return;
+  }
+
+  const traceId = await storeTrace(
+    session.bucket,
+    chunks.flat(),
+    session.owner
+  );
+  sendPageEvent(session, page, "Tracing.tracingComplete", {
+    dataLossOccurred,
+    traceId,
+    traceSize: bytes
+  });
+}
+
+/**
+ * Tracing domain handlers
+ *
+ * Chrome traces the whole browser, so one trace runs at a time per session,
+ * collected through the raw DevTools session of the page that started it.
+ */
+async function handleTracing(
+  session: CDPSession,
+  page: Page,
+  command: string,
+  params: Record<string, unknown>
+): Promise<unknown> {
+  switch (command) {
+    case "start": {
+      if (session.tracing) {
+        throw new Error(
+          "Tracing has already been started (possibly in another tab)."
+        );
+      }
+
+      const client = await devToolsClientFor(session, page);
+      const chunks: unknown[][] = [];
+      let bytes = 0;
+
+      const onData = (event: object) => {
+        const { value } = event as { value: unknown[] };
+        chunks.push(value);
+        bytes += JSON.stringify(value).length;
+      };
+      const onComplete = (event: object) => {
+        stop();
+        const { dataLossOccurred } = event as { dataLossOccurred: boolean };
+        deliverTrace(session, page, chunks, bytes, dataLossOccurred).catch(
+          (err) => console.error("[CDP] Error delivering trace:", err)
+        );
+      };
+      const stop = () => {
+        client.off("Tracing.dataCollected", onData);
+        client.off("Tracing.tracingComplete", onComplete);
+        session.tracing = undefined;
+      };
+
+      client.on("Tracing.dataCollected", onData);
+      client.on("Tracing.tracingComplete", onComplete);
+      session.tracing = { page, stop };
+
+      // Always collected as events; returning a stream would need the IO domain
+      try {
+        await sendRaw(client, "Tracing.start", {
+          ...params,
+          transferMode: "ReportEvents"
+        });
+      } catch (err) {
+        stop();
+        throw err;
+      }
+      return {};
+    }
+
+    case "end": {
+      if (!session.tracing) throw new Error("Tracing is not started");
+      const client = await devToolsClientFor(session, session.tracing.page);
+      await sendRaw(client, "Tracing.end");
+      return {};
+    }
+
+    case "getCategories":
+      return sendRaw(
+        await devToolsClientFor(session, page),
+        "Tracing.getCategories"
+      );
+
+    default:
+      throw methodNotFound(`Tracing.${command}`);
+  }
+}
+
+/**
+ * Puppeteer resource types whose CDP name isn't just the capitalized form
+ */
+const CDP_RESOURCE_TYPES: Record<string, string> = {
+  xhr: "XHR",
+  texttrack: "TextTrack",
+  eventsource: "EventSource",
+  websocket: "WebSocket",
+  signedexchange: "SignedExchange",
+  cspviolationreport: "CSPViolationReport"
+};
+
+function toCDPResourceType(type: string): string {
+  return (
+    CDP_RESOURCE_TYPES[type] ?? type.charAt(0).toUpperCase() + type.slice(1)
+  );
+}
+
+/** Maximum number of responses kept around for Network.getResponseBody */
+const MAX_STORED_RESPONSES = 200;
+
+/**
+ * Find the targetId a page is registered under
+ */
+function targetIdForPage(session: CDPSession, page: Page): string {
+  for (const [targetId, candidate] of session.pages) {
+    if (candidate === page) return targetId;
+  }
+  return session.defaultTargetId;
+}
+
+/**
+ * Get the CDP requestId for a Puppeteer request.
+ * Redirect hops reuse the id of the request that started the chain, like Chrome does.
+ */
+function requestIdFor(session: CDPSession, request: HTTPRequest): string {
+  let requestId = session.networkRequestIds.get(request);
+  if (requestId) return requestId;
+
+  const chain = request.redirectChain();
+  requestId =
+    (chain.length > 0 && session.networkRequestIds.get(chain[0])) ||
+    crypto.randomUUID();
+  session.networkRequestIds.set(request, requestId);
+  return requestId;
+}
+
+function toCDPResponse(response: HTTPResponse): Record<string, unknown> {
+  const headers = response.headers();
+  const remote = response.remoteAddress();
+  return {
+    url: response.url(),
+    status: response.status(),
+    statusText: response.statusText(),
+    headers,
+    mimeType: (headers["content-type"] || "").split(";")[0].trim(),
+    remoteIPAddress: remote.ip,
+    remotePort: remote.port,
+    fromDiskCache: response.fromCache(),
+    fromServiceWorker: response.fromServiceWorker(),
+    encodedDataLength: Number(headers["content-length"]) || 0,
+    timing: response.timing() ?? undefined,
+    securityState: response.securityDetails() ? "secure" : "insecure"
+  };
+}
+
+/**
+ * Forward a page's Puppeteer network events to the client as CDP Network events.
+ * Returns a function that removes the listeners again.
+ */
+function attachNetworkEvents(session: CDPSession, page: Page): () => void {
+  const frameId = targetIdForPage(session, page);
+
+  const onRequest = (request: HTTPRequest) => {
+    const requestId = requestIdFor(session, request);
+    const chain = request.redirectChain();
+    const redirected = chain[chain.length - 1]?.response();
+
+    sendPageEvent(session, page, "Network.requestWillBeSent", {
+      requestId,
+      loaderId: frameId,
+      documentURL: page.url(),
+      request: {
+        url: request.url(),
+        method: request.method(),
+        headers: request.headers(),
+        postData: request.postData(),
+        hasPostData: request.hasPostData()
+      },
+      timestamp: Date.now() / 1000,
+      wallTime: Date.now() / 1000,
+      initiator: request.initiator() ?? { type: "other" },
+      redirectResponse: redirected ? toCDPResponse(redirected) : undefined,
+      type: toCDPResourceType(request.resourceType()),
+      frameId
+    });
+  };
+
+  const onResponse = (response: HTTPResponse) => {
+    const requestId = requestIdFor(session, response.request());
+
+    session.networkResponses.set(requestId, response);
+    if (session.networkResponses.size > MAX_STORED_RESPONSES) {
+      const oldest = session.networkResponses.keys().next().value;
+      if (oldest) session.networkResponses.delete(oldest);
+    }
+
+    sendPageEvent(session, page, "Network.responseReceived", {
+      requestId,
+      loaderId: frameId,
+      timestamp: Date.now() / 1000,
+      type: toCDPResourceType(response.request().resourceType()),
+      response: toCDPResponse(response),
+      frameId
+    });
+  };
+
+  const onRequestFinished = (request: HTTPRequest) => {
+    const headers = request.response()?.headers() ?? {};
+    sendPageEvent(session, page, "Network.loadingFinished", {
+      requestId: requestIdFor(session, request),
+      timestamp: Date.now() / 1000,
+      encodedDataLength: Number(headers["content-length"]) || 0
+    });
+  };
+
+  const onRequestFailed = (request: HTTPRequest) => {
+    const errorText = request.failure()?.errorText ?? "net::ERR_FAILED";
+    sendPageEvent(session, page, "Network.loadingFailed", {
+      requestId: requestIdFor(session, request),
+      timestamp: Date.now() / 1000,
+      type: toCDPResourceType(request.resourceType()),
+      errorText,
+      canceled: errorText === "net::ERR_ABORTED"
+    });
+  };
+
+  page.on("request", onRequest);
+  page.on("response", onResponse);
+  page.on("requestfinished", onRequestFinished);
+  page.on("requestfailed", onRequestFailed);
+
+  return () => {
+    page.off("request", onRequest);
+    page.off("response", onResponse);
+    page.off("requestfinished", onRequestFinished);
+    page.off("requestfailed", onRequestFailed);
+  };
+}
+
+/**
+ * Network domain handlers
+ */
+async function handleNetwork(
+  session: CDPSession,
+  page: Page,
+  command: string,
+  params: Record<string, unknown>
+): Promise<unknown> {
+  switch (command) {
+    case "enable":
+      if (!session.networkListeners.has(page)) {
+        session.networkListeners.set(page, attachNetworkEvents(session, page));
+      }
+      return {};
+
+    case "disable":
+      session.networkListeners.get(page)?.();
+      session.networkListeners.delete(page);
+      return {};
+
+    case "setCacheDisabled":
+      await page.setCacheEnabled(!params.cacheDisabled);
+      return {};
+
+    case "setExtraHTTPHeaders": {
+      const headers = (params.headers as Record<string, string>) || {};
+      session.extraHTTPHeaders = new Map(Object.entries(headers));
+      // Headers apply to the whole session, so push them to every open page
+      for (const target of session.pages.values()) {
+        await target.setExtraHTTPHeaders(headers);
+      }
+      return {};
+    }
+
+    case "setUserAgentOverride": {
+      const userAgent = params.userAgent as string;
+      if (!userAgent) throw new Error("userAgent is required");
+      await page.setUserAgent(
+        userAgent,
+        params.userAgentMetadata as Parameters<Page["setUserAgent"]>[1]
+      );
+      if (params.acceptLanguage) {
+        session.extraHTTPHeaders.set(
+          "Accept-Language",
+          params.acceptLanguage as string
+        );
+        await page.setExtraHTTPHeaders(
+          Object.fromEntries(session.extraHTTPHeaders)
+        );
+      }
+      return {};
+    }
+
+    case "getResponseBody": {
+      const requestId = params.requestId as string;
+      const response = session.networkResponses.get(requestId);
+      if (!response) {
+        throw new Error("No resource with given identifier found");
+      }
+
+      const body = await response.buffer();
+      const mimeType = response.headers()["content-type"] || "";
+      const isText = /^text\/|json|javascript|xml|svg/.test(mimeType);
+      return isText
+        ? { body: body.toString("utf8"), base64Encoded: false }
+        : { body: body.toString("base64"), base64Encoded: true };
+    }
+
+    case "getCookies": {
+      const urls = (params.urls as string[] | undefined) || [];
+      return { cookies: await page.cookies(...urls) };
+    }
+
+    case "getAllCookies": {
+      const client = await page.createCDPSession();
+      try {
+        return await client.send("Network.getAllCookies");
+      } finally {
+        await client.detach();
+      }
+    }
+
+    case "setCookie": {
+      const { name, value } = params as { name?: string; value?: string };
+      if (!name || value === undefined) {
+        throw new Error("name and value are required");
+      }
+      await page.setCookie(params as unknown as CookieParam);
+      return { success: true };
+    }
+
+    case "setCookies": {
+      const cookies = (params.cookies as CookieParam[]) || [];
+      await page.setCookie(...cookies);
+      return {};
+    }
+
+    case "deleteCookies": {
+      const name = params.name as string;
+      if (!name) throw new Error("name is required");
+      await page.deleteCookie(params as unknown as DeleteCookiesRequest);
+      return {};
+    }
+
+    case "clearBrowserCookies": {
+      const client = await page.createCDPSession();
+      try {
+        await client.send("Network.clearBrowserCookies");
+      } finally {
+        await client.detach();
+      }
+      return {};
+    }
+
+    default:
+      throw methodNotFound(`Network.${command}`);
+  }
+}
+
+/**
+ * Untyped view of a raw DevTools session's `send`, for forwarding client params as-is
+ */
+type RawCDPSend = (
+  method: string,
+  params?: Record<string, unknown>
+) => Promise<unknown>;
+
+/**
+ * Send a command on a raw DevTools session without Puppeteer's typed method map
+ */
+function sendRaw(
+  client: PuppeteerCDPSession,
+  method: string,
+  params?: Record<string, unknown>
+): Promise<unknown> {
+  const send = client.send.bind(client) as unknown as RawCDPSend;
+  return send(method, params);
+}
+
+/**
+ * Get (or open) the raw DevTools session for a page.
+ *
+ * Used for CDP features Puppeteer doesn't wrap, such as pausing on auth
+ * challenges or locale overrides. Overrides only last while the session is
+ * attached, so it is kept open for the lifetime of the page.
+ */
+async function devToolsClientFor(
+  session: CDPSession,
+  page: Page
+): Promise<PuppeteerCDPSession> {
+  const existing = session.devToolsClients.get(page);
+  if (existing) return existing;
+
+  const client = await page.createCDPSession();
+  const frameId = targetIdForPage(session, page);
+
+  client.on("Fetch.requestPaused", (event) => {
+    session.pendingRequests.set(event.requestId, client);
+    sendPageEvent(session, page, "Fetch.requestPaused", { ...event, frameId });
+  });
+  client.on("Fetch.authRequired", (event) => {
+    session.pendingRequests.set(event.requestId, client);
+    sendPageEvent(session, page, "Fetch.authRequired", { ...event, frameId });
+  });
+  // The shim exposes a single execution context per page (see Runtime.enable)
+  client.on("Runtime.bindingCalled", (event) => {
+    sendPageEvent(session, page, "Runtime.bindingCalled", {
+      ...event,
+      executionContextId: 1
+    });
+  });
+
+  session.devToolsClients.set(page, client);
+  return client;
+}
+
+/**
+ * Commands that resolve a paused request, releasing it from pendingRequests
+ */
+const FETCH_RESOLVING_COMMANDS = new Set([
+  "continueRequest",
+  "fulfillRequest",
+  "failRequest",
+  "continueWithAuth",
+  "continueResponse"
+]);
+
+/**
+ * Fetch domain handlers (request interception)
+ */
+async function handleFetch(
+  session: CDPSession,
+  page: Page,
+  command: string,
+  params: Record<string, unknown>
+): Promise<unknown> {
+  switch (command) {
+    case "enable": {
+      // Puppeteer's interception can't pause on auth challenges or filter by
+      // resource type, so requests are paused on the raw session instead
+      const client = await devToolsClientFor(session, page);
+      await sendRaw(client, "Fetch.enable", {
+        patterns: params.patterns,
+        handleAuthRequests: params.handleAuthRequests
+      });
+      session.interceptedPages.add(page);
+      return {};
+    }
+
+    case "disable": {
+      session.interceptedPages.delete(page);
+      const client = session.devToolsClients.get(page);
+      if (!client) return {};
+
+      await client.send("Fetch.disable");
+
+      // Chrome lets go of any request still paused on this session
+      for (const [requestId, owner] of session.pendingRequests) {
+        if (owner === client) session.pendingRequests.delete(requestId);
+      }
+      return {};
+    }
+
+    case "continueRequest":
+    case "fulfillRequest":
+    case "failRequest":
+    case "continueWithAuth":
+    case "continueResponse":
+    case "getResponseBody":
+    case "takeResponseBodyAsStream": {
+      const requestId = params.requestId as string;
+      const client = session.pendingRequests.get(requestId);
+      if (!client) throw new Error(`Invalid InterceptionId: ${requestId}`);
+
+      const result = await sendRaw(client, `Fetch.${command}`, params);
+      if (FETCH_RESOLVING_COMMANDS.has(command)) {
+        session.pendingRequests.delete(requestId);
+      }
+      return result ?? {};
+    }
+
+    default:
+      throw methodNotFound(`Fetch.${command}`);
+  }
+}
+
+/**
+ * Emulation domain handlers
+ *
+ * Viewport, user agent, timezone and media go through Puppeteer so its own
+ * view of the page stays in sync; the rest is sent on the raw DevTools session.
+ */
+async function handleEmulation(
+  session: CDPSession,
+  page: Page,
+  command: string,
+  params: Record<string, unknown>
+): Promise<unknown> {
+  switch (command) {
+    case "setDeviceMetricsOverride": {
+      const width = params.width as number;
+      const height = params.height as number;
+      if (typeof width !== "number" || typeof height !== "number") {
+        throw new Error("width and height are required");
+      }
+
+      const current = page.viewport();
+      const orientation = params.screenOrientation as
+        | { type: string }
+        | undefined;
+      await page.setViewport({
+        // 0 means "keep the current size" in CDP
+        width: width || current?.width || 1280,
+        height: height || current?.height || 800,
+        deviceScaleFactor: (params.deviceScaleFactor as number) || 1,
+        isMobile: !!params.mobile,
+        hasTouch: current?.hasTouch ?? false,
+        isLandscape: orientation?.type.startsWith("landscape") ?? false
+      });
+      return {};
+    }
+
+    case "clearDeviceMetricsOverride":
+      await page.setViewport(null);
+      return {};
+
+    case "setUserAgentOverride": {
+      const userAgent = params.userAgent as string;
+      if (!userAgent) throw new Error("userAgent is required");
+      await page.setUserAgent(
+        userAgent,
+        params.userAgentMetadata as Parameters<Page["setUserAgent"]>[1]
+      );
+      return {};
+    }
+
+    case "setGeolocationOverride": {
+      const { latitude, longitude, accuracy } = params as {
+        latitude?: number;
+        longitude?: number;
+        accuracy?: number;
+      };
+      const client = await devToolsClientFor(session, page);
+      await sendRaw(client, "Emulation.setGeolocationOverride", {
+        latitude,
+        longitude,
+        accuracy
+      });
+
+      // The override is only visible to pages allowed to ask for a location
+      const url = page.url();
+      if (url.startsWith("http")) {
+        await page
+          .browserContext()
+          .overridePermissions(new URL(url).origin, ["geolocation"]);
+      }
+      return {};
+    }
+
+    case "clearGeolocationOverride": {
+      const client = await devToolsClientFor(session, page);
+      await sendRaw(client, "Emulation.clearGeolocationOverride");
+      return {};
+    }
+
+    case "setTimezoneOverride":
+      // An empty timezoneId restores the host timezone
+      await page.emulateTimezone((params.timezoneId as string) || undefined);
+      return {};
+
+    case "setLocaleOverride": {
+      const client = await devToolsClientFor(session, page);
+      await sendRaw(client, "Emulation.setLocaleOverride", {
+        locale: params.locale
+      });
+      return {};
+    }
+
+    case "setEmulatedMedia": {
+      await page.emulateMediaType((params.media as string) || undefined);
+      await page.emulateMediaFeatures(
+        params.features as Array<{ name: string; value: string }> | undefined
+      );
+      return {};
+    }
+
+    case "setTouchEmulationEnabled": {
+      const client = await devToolsClientFor(session, page);
+      await sendRaw(client, "Emulation.setTouchEmulationEnabled", {
+        enabled: !!params.enabled,
+        maxTouchPoints: params.maxTouchPoints
+      });
+      return {};
+    }
+
+    case "setDefaultBackgroundColorOverride": {
+      const client = await devToolsClientFor(session, page);
+      await sendRaw(client, "Emulation.setDefaultBackgroundColorOverride", {
+        color: params.color
+      });
+      return {};
+    }
+
+    case "setCPUThrottlingRate":
+      await page.emulateCPUThrottling((params.rate as number) || null);
+      return {};
+
+    case "setScriptExecutionDisabled":
+      await page.setJavaScriptEnabled(!params.value);
+      return {};
+
+    case "setFocusEmulationEnabled": {
+      const client = await devToolsClientFor(session, page);
+      await sendRaw(client, "Emulation.setFocusEmulationEnabled", {
+        enabled: !!params.enabled
+      });
       return {};
+    }
 
     default:
-      throw new Error(`Unknown Browser method: ${command}`);
+      throw methodNotFound(`Emulation.${command}`);
   }
 }
 
 /**
- * Target domain handlers
+ * CDP modifier bit flags mapped to the Puppeteer keys that produce them
  */
-async function handleTarget(
-  session: CDPSession,
+const MODIFIER_KEYS: Array<[bit: number, key: KeyInput]> = [
+  [1, "Alt"],
+  [2, "Control"],
+  [4, "Meta"],
+  [8, "Shift"]
+];
+
+/**
+ * Modifier keys currently held down on each page by the shim
+ */
+const heldModifiers = new WeakMap<Page, Set<KeyInput>>();
+
+/**
+ * Press or release modifier keys so the keyboard state matches a CDP
+ * `modifiers` bitmask before dispatching the next input event.
+ */
+async function syncModifiers(page: Page, modifiers: number): Promise<void> {
+  let held = heldModifiers.get(page);
+  if (!held) {
+    held = new Set();
+    heldModifiers.set(page, held);
+  }
+
+  for (const [bit, key] of MODIFIER_KEYS) {
+    const wanted = (modifiers & bit) !== 0;
+    if (wanted && !held.has(key)) {
+      await page.keyboard.down(key);
+      held.add(key);
+    } else if (!wanted && held.has(key)) {
+      await page.keyboard.up(key);
+      held.delete(key);
+    }
+  }
+}
+
+/**
+ * Input domain handlers
+ *
+ * Maps CDP input events onto the Puppeteer page's mouse, keyboard and
+ * touchscreen so that the page sees real trusted events.
+ */
+async function handleInput(
+  page: Page,
   command: string,
-  params: Record<string, unknown>,
-  ws: WebSocket
+  params: Record<string, unknown>
 ): Promise<unknown> {
   switch (command) {
-    case "createTarget": {
-      const url = (params.url as string) || "about:blank";
-      const page = await session.browser.newPage();
-      const targetId = crypto.randomUUID();
-
-      session.pages.set(targetId, page);
+    case "dispatchMouseEvent": {
+      const type = params.type as string;
+      const x = params.x as number;
+      const y = params.y as number;
+      const button = (params.button as string) || "none";
+      const clickCount = (params.clickCount as number | undefined) ?? 1;
+      const options = {
+        button: (button === "none" ? "left" : button) as MouseButton,
+        clickCount
+      };
 
-      if (url !== "about:blank") {
-        await page.goto(url);
+      if (typeof x !== "number" || typeof y !== "number") {
+        throw new Error("x and y are required");
       }
 
-      sendEvent(ws, "Target.targetCreated", {
-        targetInfo: {
-          targetId,
-          type: "page",
-          title: await page.title(),
-          url: page.url(),
-          attached: true
-        }
-      });
+      await syncModifiers(page, (params.modifiers as number) || 0);
 
-      return { targetId };
+      switch (type) {
+        case "mouseMoved":
+          await page.mouse.move(x, y);
+          break;
+        case "mousePressed":
+          await page.mouse.move(x, y);
+          await page.mouse.down(options);
+          break;
+        case "mouseReleased":
+          await page.mouse.move(x, y);
+          await page.mouse.up(options);
+          break;
+        case "mouseWheel":
+          await page.mouse.move(x, y);
+          await page.mouse.wheel({
+            deltaX: (params.deltaX as number) || 0,
+            deltaY: (params.deltaY as number) || 0
+          });
+          break;
+        default:
+          throw new Error(`Unknown mouse event type: ${type}`);
+      }
+      return {};
     }
 
-    case "closeTarget": {
-      const targetId = params.targetId as string;
-      const page = session.pages.get(targetId);
+    case "dispatchKeyEvent": {
+      const type = params.type as string;
+      const text = params.text as string | undefined;
+      const candidates = resolveKey(params);
 
-      if (!page) {
-        throw new Error(`Target not found: ${targetId}`);
+      await syncModifiers(page, (params.modifiers as number) || 0);
+
+      switch (type) {
+        case "keyDown":
+        case "rawKeyDown": {
+          // rawKeyDown never produces text, keyDown does unless told otherwise
+          const options = type === "rawKeyDown" ? { text: "" } : { text };
+          const pressed = await withKnownKey(candidates, (key) =>
+            page.keyboard.down(key, options)
+          );
+          if (!pressed && type === "keyDown" && text) {
+            await page.keyboard.sendCharacter(text);
+          } else if (!pressed && type === "rawKeyDown") {
+            throw new Error(`Unknown key: ${params.key ?? params.code}`);
+          }
+          return {};
+        }
+        case "keyUp":
+          await withKnownKey(candidates, (key) => page.keyboard.up(key));
+          return {};
+        case "char":
+          if (text) await page.keyboard.sendCharacter(text);
+          return {};
+        default:
+          throw new Error(`Unknown key event type: ${type}`);
       }
+    }
 
-      await page.close();
-      session.pages.delete(targetId);
+    case "insertText": {
+      const text = params.text as string;
+      if (text === undefined) throw new Error("text is required");
+      await page.keyboard.sendCharacter(text);
+      return {};
+    }
 
-      sendEvent(ws, "Target.targetDestroyed", { targetId });
+    case "dispatchTouchEvent": {
+      const type = params.type as string;
+      const points =
+        (params.touchPoints as Array<{ x: number; y: number }>) || [];
 
-      return { success: true };
-    }
+      await syncModifiers(page, (params.modifiers as number) || 0);
 
-    case "getTargets": {
-      const targets = [];
-      for (const [targetId, page] of session.pages) {
-        targets.push({
-          targetId,
-          type: "page",
-          title: await page.title(),
-          url: page.url(),
-          attached: true
-        });
+      switch (type) {
+        case "touchStart":
+          if (!points[0]) throw new Error("touchPoints is required");
+          await page.touchscreen.touchStart(points[0].x, points[0].y);
+          break;
+        case "touchMove":
+          if (!points[0]) throw new Error("touchPoints is required");
+          await page.touchscreen.touchMove(points[0].x, points[0].y);
+          break;
+        case "touchEnd":
+        case "touchCancel":
+          await page.touchscreen.touchEnd();
+          break;
+        default:
+          throw new Error(`Unknown touch event type: ${type}`);
       }
-      return { targetInfos: targets };
+      return {};
     }
 
-    case "attachToTarget":
-      // Already attached
-      return { sessionId: params.targetId };
-
     default:
-      throw new Error(`Unknown Target method: ${command}`);
+      throw methodNotFound(`Input.${command}`);
   }
 }
 
 /**
- * Page domain handlers
+ * One step of a POST /cdp/run request
  */
-async function handlePage(
-  session: CDPSession,
-  page: Page,
-  command: string,
-  params: Record<string, unknown>,
-  ws: WebSocket
-): Promise<unknown> {
-  switch (command) {
-    case "navigate": {
-      const url = params.url as string;
-      if (!url) throw new Error("url is required");
+interface CDPRunStep {
+  /** CDP method to call; a step without one only waits */
+  method?: string;
+  params?: Record<string, unknown>;
+  /** Flat-mode session to send the command on */
+  sessionId?: string;
+  /** Event to wait for after sending the command, e.g. Page.loadEventFired */
+  waitForEvent?: string;
+  /** Milliseconds to pause after the step */
+  wait?: number;
+}
 
-      const response = await page.goto(url, {
-        waitUntil: "load"
-      });
+/**
+ * Body of a POST /cdp/run request
+ */
+interface CDPRunRequest {
+  steps: CDPRunStep[];
+  /** Browser session from an earlier run (or WebSocket) to run on */
+  session?: string;
+  /** Keep the browser for the keep-alive window instead of closing it */
+  keepAlive?: boolean;
+  /** Skip the remaining steps after a failed one (default true) */
+  stopOnError?: boolean;
+}
 
-      sendEvent(ws, "Page.frameNavigated", {
-        frame: {
-          id: session.defaultTargetId,
-          url: page.url(),
-          securityOrigin: new URL(page.url()).origin,
-          mimeType: "text/html"
-        }
-      });
+/**
+ * Outcome of one POST /cdp/run step
+ */
+interface CDPRunStepResult {
+  method?: string;
+  result?: unknown;
+  error?: { code: number; message: string };
+  /** Params of the event the step waited for */
+  event?: unknown;
+  durationMs: number;
+}
 
-      sendEvent(ws, "Page.loadEventFired", {
-        timestamp: Date.now() / 1000
-      });
+/**
+ * A file produced by a step, moved out of its result
+ */
+interface CDPRunArtifact {
+  step: number;
+  method: string;
+  contentType: string;
+  /** Base64-encoded file contents */
+  data: string;
+}
 
-      return {
-        frameId: session.defaultTargetId,
-        loaderId: crypto.randomUUID(),
-        errorText: response?.ok() ? undefined : "Navigation failed"
-      };
-    }
+/**
+ * Commands whose base64 `data` result is returned as an artifact, and its type
+ */
+const ARTIFACT_CONTENT_TYPES: Record<
+  string,
+  (params: Record<string, unknown>) => string
+> = {
+  "Page.captureScreenshot": (params) =>
+    `image/${(params.format as string | undefined) ?? "png"}`,
+  "Page.printToPDF": () => "application/pdf"
+};
 
-    case "reload": {
-      await page.reload();
-      return {};
-    }
+/**
+ * Run the steps of a POST /cdp/run request on a fresh browser, or on the one
+ * named by `request.session` (or by the session claim of the client's ticket).
+ *
+ * Events are collected from an in-memory socket standing in for the client,
+ * so steps can wait for them. Files in results (screenshots, PDFs) are listed
+ * as artifacts, with the result pointing at them by index.
+ */
+async function runCDPSteps(
+  env: AgentEnv,
+  request: CDPRunRequest,
+  access: CDPAccess
+) {
+  const [client, sink] = Object.values(new WebSocketPair());
+  client.accept();
+  sink.accept();
 
-    case "getFrameTree": {
-      return {
-        frameTree: {
-          frame: {
-            id: session.defaultTargetId,
-            loaderId: crypto.randomUUID(),
-            url: page.url(),
-            securityOrigin: page.url() ? new URL(page.url()).origin : "",
-            mimeType: "text/html"
-          },
-          childFrames: []
+  const waiters: { method: string; resolve: (params: unknown) => void }[] = [];
+  client.addEventListener("message", (event) => {
+    const message = JSON.parse(event.data as string);
+    if (!message.method) return;
+    for (const waiter of waiters.filter((w) => w.method === message.method)) {
+      waiters.splice(waiters.indexOf(waiter), 1);
+      waiter.resolve(message.params);
+    }
+  });
+  const nextEvent = (method: string) =>
+    new Promise<unknown>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        waiters.splice(waiters.indexOf(waiter), 1);
+        reject(new Error(`Timed out waiting for ${method}`));
+      }, CDP_RUN_MAX_WAIT_MS);
+      const waiter = {
+        method,
+        resolve: (params: unknown) => {
+          clearTimeout(timer);
+          resolve(params);
         }
       };
-    }
+      waiters.push(waiter);
+    });
 
-    case "captureScreenshot": {
-      const format = (params.format as string) || "png";
-      const quality = params.quality as number | undefined;
-      const clip = params.clip as
-        | { x: number; y: number; width: number; height: number }
-        | undefined;
+  // A session some other client is connected to is left alone
+  const sessionId = request.session ?? access.claims?.session;
+  const session = sessionId
+    ? await resumeCDPSession(sink, env, sessionId, access, { takeOver: false })
+    : await launchCDPSession(sink, env, access.owner);
 
-      // Puppeteer screenshot options require specific types
-      // Safe to cast if we validate inputs or trust upstream calls
-      const data = await page.screenshot({
-        type: format as "png" | "jpeg" | "webp",
-        encoding: "base64",
-        quality: format === "jpeg" ? quality : undefined,
-        clip: clip,
-        fullPage: params.fullPage as boolean | undefined
-      });
+  const results: CDPRunStepResult[] = [];
+  const artifacts: CDPRunArtifact[] = [];
+  try {
+    for (const step of request.steps) {
+      const started = Date.now();
+      const outcome: CDPRunStepResult = { method: step.method, durationMs: 0 };
+      results.push(outcome);
 
-      return { data };
-    }
+      try {
+        if (step.method) {
+          touchCDPSession(session, env);
+          if (access.claims && !isMethodAllowed(access.claims, step.method)) {
+            throw new Error(`Method not allowed by ticket: ${step.method}`);
+          }
 
-    default:
-      console.warn(`Unimplemented Page method: ${command}`);
-      return {};
+          const params = step.params ?? {};
+          const event = step.waitForEvent
+            ? nextEvent(step.waitForEvent)
+            : undefined;
+          // Don't let a failing command leave the wait's rejection unhandled
+          event?.catch(() => {});
+
+          const result = await handleCDPMethod(
+            session,
+            step.method,
+            params,
+            step.sessionId
+          );
+          const contentType = ARTIFACT_CONTENT_TYPES[step.method]?.(params);
+          const data = (result as { data?: unknown } | undefined)?.data;
+          if (contentType && typeof data === "string") {
+            artifacts.push({
+              step: results.length - 1,
+              method: step.method,
+              contentType,
+              data
+            });
+            outcome.result = {
+              ...(result as object),
+              data: undefined,
+              artifact: artifacts.length - 1
+            };
+          } else {
+            outcome.result = result;
+          }
+
+          if (event) outcome.event = await event;
+        }
+
+        if (step.wait) {
+          const delay = Math.min(step.wait, CDP_RUN_MAX_WAIT_MS);
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+      } catch (err) {
+        outcome.error = {
+          code: err instanceof CDPError ? err.code : -32000,
+          message: err instanceof Error ? err.message : "Unknown error"
+        };
+      }
+      outcome.durationMs = Date.now() - started;
+
+      if (outcome.error && request.stopOnError !== false) break;
+    }
+  } finally {
+    clearTimeout(session.idleTimer);
+    // A resumed browser is never closed here: it belongs to the run or client
+    // that started it, and lasts out its keep-alive window as before (unless
+    // a WebSocket client has reconnected to it meanwhile)
+    const keep = request.keepAlive || sessionId;
+    if (keep && session.ws === sink) {
+      session.keepAliveTimer = setTimeout(
+        () => closeCDPSession(session),
+        keepAliveMs(env)
+      );
+    } else if (!keep) {
+      await closeCDPSession(session);
+    }
+    client.close();
   }
+
+  return {
+    ok: results.every((result) => !result.error),
+    session: request.keepAlive || sessionId ? session.id : undefined,
+    targetId: session.defaultTargetId,
+    results,
+    artifacts
+  };
 }
 
+/** Longest pause between replayed requests when preserving recorded timing */
+const MAX_REPLAY_DELAY_MS = 10_000;
+
+/** Longest a replay runs before the remaining requests are skipped (2 minutes) */
+const MAX_REPLAY_DURATION_MS = 120_000;
+
 /**
- * Runtime domain handlers
+ * Replay the requests of a recorded session against a fresh browser.
+ *
+ * Target and flat-mode session IDs are remapped to the ones the replay
+ * creates. Events aren't compared; a step is ok when it succeeds (or fails)
+ * the way it did when recorded. Requests with params left out of the
+ * recording (credentials, redacted scripts, oversized values) are not sent,
+ * and fail. Requests still left after MAX_REPLAY_DURATION_MS are skipped.
  */
-async function handleRuntime(
-  session: CDPSession,
-  page: Page,
-  command: string,
-  params: Record<string, unknown>
-): Promise<unknown> {
-  switch (command) {
-    case "evaluate": {
-      const expression = params.expression as string;
-      if (!expression) throw new Error("expression is required");
+async function replayCDPRecording(
+  env: AgentEnv,
+  recording: CDPRecording,
+  options: { preserveTiming?: boolean } = {}
+): Promise<CDPReplay> {
+  const deadline = Date.now() + MAX_REPLAY_DURATION_MS;
+  // Nobody listens to the replay's events; an unread socket pair swallows them
+  const [, sink] = Object.values(new WebSocketPair());
+  sink.accept();
+  const session = await launchCDPSession(sink, env, SECRET_OWNER);
+  const { browser } = session;
 
-      const result = await page.evaluate((expr) => {
-        // Evaluate in page context
-        try {
-          // eslint-disable-next-line no-eval
-          const res = eval(expr);
-          return {
-            type: typeof res,
-            value: res
-          };
-        } catch (err) {
-          return {
-            type: "string",
-            value: err instanceof Error ? err.message : String(err),
-            isError: true
-          };
-        }
-      }, expression);
+  const responseKey = (message: Record<string, unknown>) =>
+    `${message.sessionId ?? ""}:${message.id}`;
+  const responses = new Map<string, Record<string, unknown>>();
+  const recordedSessionIds: string[] = [];
+  for (const { type, message } of recording.messages) {
+    if (type === "response" && message) {
+      responses.set(responseKey(message), message);
+    } else if (
+      type === "event" &&
+      message?.method === "Target.attachedToTarget"
+    ) {
+      recordedSessionIds.push(
+        (message.params as { sessionId: string }).sessionId
+      );
+    }
+  }
 
-      return {
-        result: {
-          type: result.type,
-          value: result.value
+  const targetIds = new Map([
+    [recording.initialTargetId, session.defaultTargetId]
+  ]);
+  const sessionIds = new Map<string, string>();
+  const replaySessionIds: string[] = [];
+  const steps: CDPReplayStep[] = [];
+  let skipped = 0;
+  let previousT = 0;
+
+  try {
+    for (const entry of recording.messages) {
+      if (entry.type !== "request" || !entry.message) continue;
+      const request = entry.message as unknown as CDPRequest;
+
+      if (options.preserveTiming) {
+        const delay = Math.min(
+          entry.t - previousT,
+          MAX_REPLAY_DELAY_MS,
+          deadline - Date.now()
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+      previousT = entry.t;
+      if (Date.now() >= deadline) {
+        skipped++;
+        continue;
+      }
+
+      const params = { ...request.params };
+      if (typeof params.targetId === "string") {
+        params.targetId = targetIds.get(params.targetId) ?? params.targetId;
+      }
+      if (typeof params.sessionId === "string") {
+        params.sessionId = sessionIds.get(params.sessionId) ?? params.sessionId;
+      }
+      const sessionId = request.sessionId
+        ? (sessionIds.get(request.sessionId) ?? request.sessionId)
+        : undefined;
+
+      const started = Date.now();
+      let replayed: CDPReplayStep["replayed"];
+      try {
+        // Sending a placeholder would run something else than was recorded
+        if (hasOmittedValues(params)) {
+          throw new Error(
+            "Not replayed: params were left out of the recording"
+          );
         }
-      };
-    }
+        replayed = {
+          result: await handleCDPMethod(
+            session,
+            request.method,
+            params,
+            sessionId
+          )
+        };
+      } catch (err) {
+        replayed = {
+          error: err instanceof Error ? err.message : "Unknown error"
+        };
+      }
+      const durationMs = Date.now() - started;
 
-    default:
-      console.warn(`Unimplemented Runtime method: ${command}`);
-      return {};
+      // Learn the IDs this step created so later steps can use them
+      const recorded = responses.get(responseKey(entry.message));
+      const recordedTarget = (recorded?.result as { targetId?: string })
+        ?.targetId;
+      const replayedTarget = (replayed.result as { targetId?: string })
+        ?.targetId;
+      if (recordedTarget && replayedTarget) {
+        targetIds.set(recordedTarget, replayedTarget);
+      }
+      for (const id of session.attachedSessions.keys()) {
+        if (!replaySessionIds.includes(id)) replaySessionIds.push(id);
+      }
+      replaySessionIds.forEach((id, i) => {
+        if (recordedSessionIds[i]) sessionIds.set(recordedSessionIds[i], id);
+      });
+
+      steps.push({
+        id: request.id,
+        method: request.method,
+        sessionId: request.sessionId,
+        recorded: recorded && {
+          result: recorded.result,
+          error: recorded.error
+        },
+        replayed,
+        ok: !recorded || "error" in recorded === "error" in replayed,
+        durationMs
+      });
+    }
+  } finally {
+    try {
+      await browser.close();
+    } catch (err) {
+      console.error("[CDP] Error closing replay browser:", err);
+    }
   }
+
+  return { steps, skipped };
 }
 
 /**
- * Input domain handlers (simplified)
+ * Send a CDP message over WebSocket, adding it to the connection's recording
  */
-async function handleInput(
-  page: Page,
-  command: string,
-  params: Record<string, unknown>
-): Promise<unknown> {
-  // Basic shim for input methods, real implementation requires detailed params mapping
-  // Here we just acknowledge the command to prevent errors
-  console.log(`[Input] Shimmed method called: ${command}`);
-  return {};
+function send(
+  ws: WebSocket,
+  type: "response" | "event",
+  message: Record<string, unknown>
+) {
+  if (ws.readyState === WebSocket.OPEN) {
+    recorders.get(ws)?.record(type, message);
+    ws.send(JSON.stringify(message));
+  }
 }
 
 /**
@@ -754,29 +4554,66 @@ async function handleInput(
 function sendEvent(
   ws: WebSocket,
   method: string,
+  params: Record<string, unknown>,
+  sessionId?: string
+) {
+  send(ws, "event", { method, params, sessionId });
+}
+
+/**
+ * Send an event from a target to every flat-mode session attached to it.
+ * Clients that never attached get the event untagged on the main connection.
+ */
+function sendTargetEvent(
+  session: CDPSession,
+  targetId: string,
+  method: string,
   params: Record<string, unknown>
 ) {
-  if (ws.readyState === WebSocket.OPEN) {
-    ws.send(JSON.stringify({ method, params }));
+  let delivered = false;
+  for (const [sessionId, attachedTargetId] of session.attachedSessions) {
+    if (attachedTargetId !== targetId) continue;
+    sendEvent(session.ws, method, params, sessionId);
+    delivered = true;
   }
+  if (!delivered) sendEvent(session.ws, method, params);
+}
+
+/**
+ * Send an event from one of the session's pages
+ */
+function sendPageEvent(
+  session: CDPSession,
+  page: Page,
+  method: string,
+  params: Record<string, unknown>
+) {
+  sendTargetEvent(session, targetIdForPage(session, page), method, params);
 }
 
 /**
  * Helper to send responses over WebSocket
  */
-function sendResponse(ws: WebSocket, id: number, result: unknown) {
-  if (ws.readyState === WebSocket.OPEN) {
-    ws.send(JSON.stringify({ id, result }));
-  }
+function sendResponse(
+  ws: WebSocket,
+  id: number,
+  result: unknown,
+  sessionId?: string
+) {
+  send(ws, "response", { id, result, sessionId });
 }
 
 /**
  * Helper to send errors over WebSocket
  */
-function sendError(ws: WebSocket, id: number, code: number, message: string) {
-  if (ws.readyState === WebSocket.OPEN) {
-    ws.send(JSON.stringify({ id, error: { code, message } }));
-  }
+function sendError(
+  ws: WebSocket,
+  id: number,
+  code: number,
+  message: string,
+  sessionId?: string
+) {
+  send(ws, "response", { id, error: { code, message }, sessionId });
 }
 
-export { cdp };
+export { cdp, replayCDPRecording };
@@ -133,3 +133,4 @@ export { Chat } from "./durable-objects/chat";
 // Export the MoltbotMcp and Registry classes
 export { MoltbotMcp };
 export { Registry } from "./durable-objects/registry";
+export { BrowserCoordinator } from "./durable-objects/browser-coordinator";
@@ -2,12 +2,12 @@
  * Tool definitions for the AI chat agent
  * Tools can either require human confirmation or execute automatically
  */
-import { tool, type ToolSet } from "ai";
+import { generateText, tool, type ToolSet } from "ai";
 import { z } from "zod/v3";
 
 import { getCurrentAgent } from "agents";
 import { scheduleSchema } from "agents/schedule";
-import type { MoltbotAgent } from "./types";
+import type { AgentEnv, MoltbotAgent } from "./types";
 
 /**
  * Weather information tool that requires human confirmation
@@ -422,24 +422,280 @@ const inspectContainer = tool({
 });
 
 // Import puppeteer for visual browsing
-import puppeteer from "@cloudflare/puppeteer";
+import puppeteer, { type Page } from "@cloudflare/puppeteer";
+import {
+  WEB_VITALS_TRACE_CATEGORIES,
+  downloadsPrefix,
+  formatReadablePage,
+  interceptDownloads,
+  paginateMarkdown,
+  readPageAsMarkdown,
+  screenshotKey,
+  screenshotPath,
+  storeScreenshot,
+  storeTrace,
+  summarizeWebVitals,
+  takeAXSnapshot,
+  type DownloadProgress,
+  type ScreenshotToolResult,
+  type TraceEvent
+} from "./cdp";
+import { OPENAI_MODEL, R2_MOUNT_PATH } from "./config";
+import { openai } from "@ai-sdk/openai";
+import { fromJSONSchema, prettifyError, type ZodType } from "zod";
+
+/** How long browse_page waits for a download to start and be stored */
+const DOWNLOAD_TIMEOUT_MS = 30_000;
+
+/** Characters of Markdown browse_page returns per 'read' */
+const READ_CHUNK_CHARS = 10_000;
+
+/** How long a page rendered by 'read' is kept for reads further in (10 minutes) */
+const READ_CACHE_TTL_MS = 600_000;
+
+/** Most rendered pages kept for reads further in */
+const READ_CACHE_MAX_PAGES = 20;
+
+/**
+ * Markdown of recently read pages by agent and URL, so that reading on with a
+ * cursor slices the document the first chunk came from instead of rendering
+ * the page again (and getting different offsets if it changed)
+ */
+const readCache = new Map<string, { markdown: string; expires: number }>();
+
+/**
+ * The cached Markdown of a page an agent read, if still fresh
+ */
+function cachedRead(key: string): string | undefined {
+  const entry = readCache.get(key);
+  if (entry && entry.expires > Date.now()) return entry.markdown;
+  readCache.delete(key);
+  return undefined;
+}
+
+/**
+ * Keep a page's Markdown for reads further in, evicting the oldest pages
+ */
+function cacheRead(key: string, markdown: string) {
+  readCache.delete(key);
+  readCache.set(key, { markdown, expires: Date.now() + READ_CACHE_TTL_MS });
+  for (const oldest of readCache.keys()) {
+    if (readCache.size <= READ_CACHE_MAX_PAGES) break;
+    readCache.delete(oldest);
+  }
+}
+
+/**
+ * One chunk of a page's Markdown, with a note on where to read on
+ */
+function readChunk(markdown: string, cursor: number): string {
+  const chunk = paginateMarkdown(markdown, cursor, READ_CHUNK_CHARS);
+  if (chunk.nextCursor === undefined) return chunk.content;
+  return `${chunk.content}\n\n[Characters ${chunk.start}-${chunk.nextCursor} of ${chunk.total}. Read on with cursor: ${chunk.nextCursor}]`;
+}
+
+/**
+ * Open a URL (and click a selector, if given), storing the files it downloads
+ * in R2 under the agent's downloads prefix
+ */
+async function downloadFromPage(
+  page: Page,
+  bucket: R2Bucket,
+  owner: string,
+  url: string,
+  selector?: string
+): Promise<string> {
+  const stored: DownloadProgress[] = [];
+  let pending = 0;
+  let finished!: () => void;
+  const done = new Promise<void>((resolve) => (finished = resolve));
+
+  const client = await page.browser().target().createCDPSession();
+  const stop = await interceptDownloads(
+    client,
+    bucket,
+    downloadsPrefix(owner),
+    {
+      pageFor: () => page,
+      onWillBegin: () => {
+        pending++;
+      },
+      onProgress: (event) => {
+        if (event.state === "inProgress") return;
+        if (event.state === "completed") stored.push(event);
+        if (--pending === 0) finished();
+      }
+    }
+  );
+
+  try {
+    // Navigating straight to a file aborts the navigation once it turns into a download
+    await page.goto(url, { waitUntil: "domcontentloaded" }).catch((err) => {
+      if (!String(err).includes("net::ERR_ABORTED")) throw err;
+    });
+    if (selector) await page.click(selector);
+
+    await Promise.race([
+      done,
+      new Promise((resolve) => setTimeout(resolve, DOWNLOAD_TIMEOUT_MS))
+    ]);
+  } finally {
+    await stop();
+    await client.detach().catch(() => {});
+  }
+
+  if (stored.length === 0) {
+    return pending > 0
+      ? `Download from ${url} did not finish within ${DOWNLOAD_TIMEOUT_MS / 1000}s`
+      : `No download started from ${url}`;
+  }
+  return [
+    `Stored ${stored.length} download(s) in R2 (also at ${R2_MOUNT_PATH}/<key> in the container when R2 is mounted):`,
+    ...stored.map((d) => `- ${d.filePath} (${d.totalBytes} bytes)`)
+  ].join("\n");
+}
+
+/** Core Web Vitals thresholds: at most `good` is good, above `poor` is poor */
+const WEB_VITALS_THRESHOLDS = {
+  largestContentfulPaintMs: {
+    label: "LCP",
+    unit: "ms",
+    good: 2500,
+    poor: 4000
+  },
+  firstContentfulPaintMs: { label: "FCP", unit: "ms", good: 1800, poor: 3000 },
+  cumulativeLayoutShift: { label: "CLS", unit: "", good: 0.1, poor: 0.25 },
+  totalBlockingTimeMs: { label: "TBT", unit: "ms", good: 200, poor: 600 }
+} as const;
+
+/**
+ * Load a URL while tracing it, and summarize its Core Web Vitals and page
+ * metrics. The full trace is stored in R2 for a closer look in DevTools.
+ */
+async function auditPage(
+  page: Page,
+  bucket: R2Bucket,
+  owner: string,
+  url: string
+): Promise<string> {
+  await page.tracing.start({ categories: WEB_VITALS_TRACE_CATEGORIES });
+  await page.goto(url, { waitUntil: "networkidle2" });
+  const trace = await page.tracing.stop();
+  const metrics = await page.metrics();
+
+  const { traceEvents } = JSON.parse(trace?.toString() ?? "{}") as {
+    traceEvents?: TraceEvent[];
+  };
+  const vitals = summarizeWebVitals(traceEvents ?? []);
+  const traceId = await storeTrace(bucket, traceEvents ?? [], owner);
+
+  const lines = [`Performance audit of ${vitals.url ?? url}`, ""];
+  for (const [key, { label, unit, good, poor }] of Object.entries(
+    WEB_VITALS_THRESHOLDS
+  )) {
+    const value = vitals[key as keyof typeof WEB_VITALS_THRESHOLDS];
+    if (value === undefined) {
+      lines.push(`- ${label}: not measured`);
+      continue;
+    }
+    const rating =
+      value <= good ? "good" : value <= poor ? "needs improvement" : "poor";
+    lines.push(`- ${label}: ${value}${unit} (${rating})`);
+  }
+  lines.push(
+    `- Long tasks: ${vitals.longTasks}`,
+    `- DOMContentLoaded: ${vitals.domContentLoadedMs ?? "?"}ms, load: ${vitals.loadMs ?? "?"}ms`,
+    "",
+    "Page metrics:",
+    `- Script: ${Math.round((metrics.ScriptDuration ?? 0) * 1000)}ms, layout: ${Math.round((metrics.LayoutDuration ?? 0) * 1000)}ms, total tasks: ${Math.round((metrics.TaskDuration ?? 0) * 1000)}ms`,
+    `- JS heap used: ${((metrics.JSHeapUsedSize ?? 0) / 1024 / 1024).toFixed(1)} MB`,
+    `- DOM nodes: ${metrics.Nodes ?? 0}`,
+    "",
+    `Full trace stored in R2 at cdp/traces/${traceId}.json (open it in the DevTools Performance panel)`
+  );
+  return lines.join("\n");
+}
+
+/**
+ * Screenshot a page (the viewport, the full page or one element) into R2,
+ * returning its artifact reference and a Markdown image of it served by the
+ * admin API, along with its ID for attaching the image
+ */
+async function screenshotToR2(
+  page: Page,
+  env: AgentEnv,
+  owner: string,
+  url: string,
+  options: { fullPage?: boolean; selector?: string }
+): Promise<ScreenshotToolResult | string> {
+  let image: Uint8Array;
+  if (options.selector) {
+    const element = await page.$(options.selector);
+    if (!element) return `No element matches ${options.selector} on ${url}`;
+    image = await element.screenshot({ type: "jpeg", quality: 80 });
+  } else {
+    image = await page.screenshot({
+      type: "jpeg",
+      quality: 80,
+      fullPage: options.fullPage
+    });
+  }
+
+  const id = await storeScreenshot(env.MOLTBOT_BUCKET, image, { owner, url });
+  const src = `${env.WORKER_URL?.replace(/\/$/, "") ?? ""}${screenshotPath(id)}`;
+  const text = `Screenshot stored as ${screenshotKey(id)}\n![Screenshot of ${url}](${src})`;
+  return { content: [{ type: "text", text }], screenshots: [id] };
+}
 
 /**
  * Tool to browse a webpage (Agent Eyes)
- * Can read text content or take a screenshot
+ * Can read text content, take an accessibility snapshot or take a screenshot
  */
 export const browsePageDef = {
-  description: "Visit a webpage to read its content or take a screenshot",
+  description:
+    "Visit a webpage to read its content, list its structure and controls, take a screenshot, audit its load performance, or download a file to R2",
   parameters: z.object({
     url: z.string().url().describe("The URL to visit"),
     action: z
-      .enum(["read", "screenshot"])
+      .enum(["read", "snapshot", "screenshot", "audit", "download"])
       .default("read")
       .describe(
-        "Action to perform: 'read' for text content, 'screenshot' for image"
+        "Action to perform: 'read' for the main content as Markdown (title, headings, lists, tables, code and links), 'snapshot' for an accessibility outline (roles, names, states and [ref=...] element refs), 'screenshot' to store an image of the page in R2, 'audit' for Core Web Vitals and page metrics, 'download' to store the file the page downloads in R2 (fetched again with the page's cookies, so downloads that need a form POST, a one-time link or custom headers fail)"
+      ),
+    selector: z
+      .string()
+      .optional()
+      .describe(
+        "For 'download': CSS selector of the link or button that starts the download, if visiting the URL doesn't. For 'screenshot': CSS selector of the element to capture"
+      ),
+    fullPage: z
+      .boolean()
+      .optional()
+      .describe(
+        "For 'screenshot': capture the whole page, not just the viewport"
+      ),
+    cursor: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe(
+        "For 'read': where to continue a long page, as given at the end of the previous 'read'. Reading on returns the page as first read for a few minutes; leave it out to read the page afresh"
       )
   }),
-  execute: async ({ url, action }: { url: string; action: "read" | "screenshot" }) => {
+  execute: async ({
+    url,
+    action,
+    selector,
+    fullPage,
+    cursor
+  }: {
+    url: string;
+    action: "read" | "snapshot" | "screenshot" | "audit" | "download";
+    selector?: string;
+    fullPage?: boolean;
+    cursor?: number;
+  }) => {
     const { agent } = getCurrentAgent<MoltbotAgent>();
     if (!agent) throw new Error("Agent context not found");
     // @ts-expect-error - env is protected
@@ -449,6 +705,14 @@ export const browsePageDef = {
       return "Browser Rendering (env.BROWSER) is not configured.";
     }
 
+    // Reading on continues the document the first 'read' rendered; starting
+    // over at cursor 0 renders the page afresh
+    const readKey = `${agent.name} ${url}`;
+    if (action === "read" && cursor) {
+      const markdown = cachedRead(readKey);
+      if (markdown !== undefined) return readChunk(markdown, cursor);
+    }
+
     let browser;
     try {
       browser = await puppeteer.launch(env.BROWSER);
@@ -457,28 +721,42 @@ export const browsePageDef = {
       // Set a realistic viewport
       await page.setViewport({ width: 1280, height: 800 });
 
+      if (action === "download") {
+        return await downloadFromPage(
+          page,
+          env.MOLTBOT_BUCKET,
+          agent.name,
+          url,
+          selector
+        );
+      }
+
+      if (action === "audit") {
+        return await auditPage(page, env.MOLTBOT_BUCKET, agent.name, url);
+      }
+
       await page.goto(url, { waitUntil: "domcontentloaded" });
 
       if (action === "read") {
-        // Extract text content
-        const content = await page.evaluate(() => {
-          return document.body.innerText;
-        });
+        const markdown = formatReadablePage(await readPageAsMarkdown(page));
+        cacheRead(readKey, markdown);
+        return readChunk(markdown, cursor ?? 0);
+      }
+
+      if (action === "snapshot") {
+        const snapshot = await takeAXSnapshot(page);
         return (
-          content.slice(0, 5000) +
-          (content.length > 5000 ? "\n...[truncated]" : "")
+          snapshot.slice(0, 20000) +
+          (snapshot.length > 20000 ? "\n...[truncated]" : "")
         );
       }
 
       if (action === "screenshot") {
-        // @ts-ignore - Agents SDK UI handling of images
-        const base64 = await page.screenshot({
-          encoding: "base64",
-          type: "jpeg",
-          quality: 80
+        // Stored in R2 rather than inline, to keep chat history small
+        return await screenshotToR2(page, env, agent.name, url, {
+          fullPage,
+          selector
         });
-        // Return markdown image to display in chat
-        return `![Screenshot of ${url}](data:image/jpeg;base64,${base64})`;
       }
 
       return "Invalid action";
@@ -499,6 +777,285 @@ const browsePage = tool({
   execute: browsePageDef.execute
 });
 
+/** Longest controlBrowser waits for a selector to appear */
+const WAIT_FOR_MAX_MS = 30_000;
+
+/**
+ * Tool to use a browser across several steps (Agent Hands)
+ * The page stays open between calls, so the agent can click through a site,
+ * fill in forms and stay logged in
+ */
+export const controlBrowserDef = {
+  description:
+    "Use a web browser that stays open between calls: navigate, click, type into fields, pick options, scroll, wait for elements, go back or forward. Each action returns an accessibility snapshot of the page whose [ref=...] values identify elements for the next action. The browser closes after a few idle minutes.",
+  parameters: z.object({
+    action: z
+      .enum([
+        "navigate",
+        "click",
+        "type",
+        "select",
+        "scroll",
+        "wait_for",
+        "back",
+        "forward",
+        "snapshot",
+        "close"
+      ])
+      .describe("What to do in the browser"),
+    url: z
+      .string()
+      .url()
+      .optional()
+      .describe("For 'navigate': the URL to open"),
+    ref: z
+      .string()
+      .optional()
+      .describe(
+        "For 'click', 'type', 'select' and 'scroll': element ref from the latest snapshot, e.g. 'e42'"
+      ),
+    selector: z
+      .string()
+      .optional()
+      .describe(
+        "CSS selector of the element, instead of a ref. Required for 'wait_for'"
+      ),
+    text: z.string().optional().describe("For 'type': the text to enter"),
+    submit: z
+      .boolean()
+      .optional()
+      .describe("For 'type': press Enter after typing"),
+    values: z
+      .array(z.string())
+      .optional()
+      .describe("For 'select': values or labels of the options to select"),
+    direction: z
+      .enum(["up", "down"])
+      .optional()
+      .describe(
+        "For 'scroll' without an element: which way to scroll the page"
+      ),
+    timeoutMs: z
+      .number()
+      .int()
+      .positive()
+      .max(WAIT_FOR_MAX_MS)
+      .optional()
+      .describe("For 'wait_for': how long to wait (default 10000)")
+  }),
+  execute: async ({
+    action,
+    url,
+    ref,
+    selector,
+    text,
+    submit,
+    values,
+    direction,
+    timeoutMs
+  }: {
+    action:
+      | "navigate"
+      | "click"
+      | "type"
+      | "select"
+      | "scroll"
+      | "wait_for"
+      | "back"
+      | "forward"
+      | "snapshot"
+      | "close";
+    url?: string;
+    ref?: string;
+    selector?: string;
+    text?: string;
+    submit?: boolean;
+    values?: string[];
+    direction?: "up" | "down";
+    timeoutMs?: number;
+  }) => {
+    const { agent } = getCurrentAgent<MoltbotAgent>();
+    if (!agent) throw new Error("Agent context not found");
+    const browser = agent.getBrowser();
+    const target = { ref, selector };
+    // Tell the model when its earlier page state was lost to a new browser
+    const report = (result: string) => {
+      const notice = browser.takeRestartNotice();
+      return notice ? `${notice}\n\n${result}` : result;
+    };
+
+    try {
+      switch (action) {
+        case "navigate":
+          if (!url) return "'navigate' needs a url";
+          await browser.navigate(url);
+          break;
+        case "click":
+          await browser.click(target);
+          break;
+        case "type":
+          if (text === undefined) return "'type' needs text";
+          await browser.type(target, text, submit);
+          break;
+        case "select": {
+          if (!values?.length) return "'select' needs values";
+          const selected = await browser.select(target, values);
+          return report(
+            `Selected: ${selected.join(", ") || "(nothing)"}\n\n${await browser.snapshot()}`
+          );
+        }
+        case "scroll":
+          await browser.scroll(target, direction);
+          break;
+        case "wait_for":
+          if (!selector) return "'wait_for' needs a selector";
+          await browser.waitFor(selector, timeoutMs ?? 10_000);
+          break;
+        case "back":
+          await browser.back();
+          break;
+        case "forward":
+          await browser.forward();
+          break;
+        case "close":
+          await browser.close();
+          return "Browser closed";
+      }
+      return report(await browser.snapshot());
+    } catch (error) {
+      console.error(`Browser action ${action} failed`, error);
+      return report(
+        `Browser action '${action}' failed: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+};
+
+const controlBrowser = tool({
+  description: controlBrowserDef.description,
+  inputSchema: controlBrowserDef.parameters,
+  execute: controlBrowserDef.execute
+});
+
+/** Longest stretch of page Markdown the extract tool gives the model */
+const EXTRACT_MAX_CONTENT_CHARS = 60_000;
+
+/**
+ * Parse the JSON a model replied with, allowing for a Markdown code fence
+ */
+function parseModelJSON(text: string): unknown {
+  const fenced = /^```(?:json)?\s*([\s\S]*?)\s*```$/.exec(text.trim());
+  return JSON.parse(fenced ? fenced[1] : text);
+}
+
+/**
+ * Tool to pull structured data out of a webpage
+ * Renders the page, has the model fill in the schema from its readable
+ * content and validates the result before handing it back
+ */
+export const extractDef = {
+  description:
+    "Extract structured data (prices, tables, contact details, ...) from a webpage as JSON. Give either a JSON Schema for the result or a plain description of the fields you want. The result is validated against the schema and any mismatch is reported.",
+  parameters: z.object({
+    url: z.string().url().describe("The URL to extract from"),
+    schema: z
+      .record(z.unknown())
+      .optional()
+      .describe("JSON Schema the extracted data must match"),
+    fields: z
+      .string()
+      .optional()
+      .describe(
+        "Instead of a schema: the fields to extract, e.g. 'product name, price with currency, in stock (boolean)'"
+      )
+  }),
+  execute: async ({
+    url,
+    schema,
+    fields
+  }: {
+    url: string;
+    schema?: Record<string, unknown>;
+    fields?: string;
+  }) => {
+    const { agent } = getCurrentAgent<MoltbotAgent>();
+    if (!agent) throw new Error("Agent context not found");
+    // @ts-expect-error - env is protected
+    const env = agent.env;
+
+    if (!env.BROWSER) {
+      return "Browser Rendering (env.BROWSER) is not configured.";
+    }
+    if (!schema === !fields) {
+      return "Give either a JSON Schema or a description of the fields, not both or neither.";
+    }
+
+    let validator: ZodType;
+    try {
+      validator = fromJSONSchema(schema ?? { type: "object" });
+    } catch (error) {
+      return `Invalid JSON Schema: ${error instanceof Error ? error.message : error}`;
+    }
+
+    let content: string;
+    let browser;
+    try {
+      browser = await puppeteer.launch(env.BROWSER);
+      const page = await browser.newPage();
+      await page.setViewport({ width: 1280, height: 800 });
+      await page.goto(url, { waitUntil: "networkidle2" });
+      content = formatReadablePage(await readPageAsMarkdown(page)).slice(
+        0,
+        EXTRACT_MAX_CONTENT_CHARS
+      );
+    } catch (error) {
+      console.error(`Error rendering ${url}`, error);
+      return `Failed to render ${url}: ${error}`;
+    } finally {
+      if (browser) {
+        await browser.close();
+      }
+    }
+
+    let text: string;
+    try {
+      ({ text } = await generateText({
+        model: openai(OPENAI_MODEL),
+        system:
+          "You extract data from web pages. Reply with a single JSON value and nothing else. Only use what the page states; use null where it doesn't.",
+        prompt: [
+          `Page content (Markdown):\n\n${content}`,
+          schema
+            ? `Return JSON matching this JSON Schema:\n${JSON.stringify(schema)}`
+            : `Return a JSON object with these fields:\n${fields}`
+        ].join("\n\n---\n\n")
+      }));
+    } catch (error) {
+      console.error(`Error extracting from ${url}`, error);
+      return `Error: ${error}`;
+    }
+
+    let data: unknown;
+    try {
+      data = parseModelJSON(text);
+    } catch {
+      return `The model did not return valid JSON:\n${text}`;
+    }
+
+    const result = validator.safeParse(data);
+    if (!result.success) {
+      return `Extracted data does not match the schema:\n${prettifyError(result.error)}\n\nExtracted data:\n${JSON.stringify(data, null, 2)}`;
+    }
+    return JSON.stringify(result.data, null, 2);
+  }
+};
+
+const extract = tool({
+  description: extractDef.description,
+  inputSchema: extractDef.parameters,
+  execute: extractDef.execute
+});
+
 /**
  * Export all available tools
  * These will be provided to the AI model to describe available capabilities
@@ -517,7 +1074,9 @@ export const tools = {
   getContainerLogs,
   inspectContainer,
   // Visual Browsing
-  browsePage
+  browsePage,
+  controlBrowser,
+  extract
 } satisfies ToolSet;
 
 /**
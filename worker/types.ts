@@ -42,13 +42,24 @@ export interface AgentEnv extends Env {
   // BROWSER is already in Env
 
   CDP_SECRET?: string; // Shared secret for CDP endpoint authentication
+  CDP_ALLOW_SECRET_IN_URL?: string; // Set to 'true' to also accept CDP_SECRET as ?secret= (legacy clients; the secret ends up in logged URLs)
   WORKER_URL?: string; // Public URL of the worker (for CDP endpoint)
+  CDP_RECORD_SESSIONS?: string; // Set to 'true' to record every CDP connection to R2 (otherwise opt in with ?record=true)
+  CDP_RECORD_REDACT_SCRIPTS?: string; // Set to 'true' to leave page scripts and their results out of CDP recordings (otherwise opt in with ?redactScripts=true); replays skip those steps
+  CDP_MAX_BROWSERS?: string; // Max concurrent browsers for /cdp (default 3)
+  CDP_IDLE_TIMEOUT_MS?: string; // Close CDP sessions idle for this long, in ms (default 300000)
+  CDP_KEEP_ALIVE_MS?: string; // How long a disconnected CDP browser waits for a reconnect, in ms (default and max 600000)
 
   // MCP Server Binding
   MoltbotMcp: DurableObjectNamespace;
 
   // Agent Registry
   Registry: DurableObjectNamespace;
+
+  // Browser Rendering concurrency coordinator
+  BrowserCoordinator: DurableObjectNamespace<
+    import("./durable-objects/browser-coordinator").BrowserCoordinator
+  >;
 }
 
 export interface JWTPayload {
@@ -80,6 +91,8 @@ export type HonoVariables = {
 
 // Common interface for Agents that control Moltbot (Chat, Mcp)
 import { Agent } from "agents";
+import type { AgentBrowser } from "./cdp";
 export type MoltbotAgent = Agent<AgentEnv> & {
   getSandbox: () => Sandbox;
+  getBrowser: () => AgentBrowser;
 };
@@ -1,6 +1,8 @@
 // via https://github.com/vercel/ai/blob/main/examples/next-openai/app/api/use-chat-human-in-the-loop/utils.ts
 
 import type {
+  JSONValue,
+  Tool,
   UIMessage,
   UIMessageStreamWriter,
   ToolSet,
@@ -8,6 +10,30 @@ import type {
 } from "ai";
 import { convertToModelMessages, isStaticToolUIPart } from "ai";
 import { APPROVAL } from "../src/shared";
+import { isScreenshotToolResult, loadScreenshots } from "./cdp";
+
+type ToolModelOutput = Awaited<ReturnType<NonNullable<Tool["toModelOutput"]>>>;
+type ToolModelContent = Extract<ToolModelOutput, { type: "content" }>["value"];
+
+/**
+ * Result of an MCP tool, as returned by the tools of MCP servers the agent
+ * connects to
+ */
+interface MCPToolResult {
+  content: (
+    | { type: "text"; text: string }
+    | { type: "image"; data: string; mimeType: string }
+    | { type: string }
+  )[];
+}
+
+function isMCPToolResult(output: unknown): output is MCPToolResult {
+  return (
+    typeof output === "object" &&
+    output !== null &&
+    Array.isArray((output as MCPToolResult).content)
+  );
+}
 
 function isValidToolName<K extends PropertyKey, T extends object>(
   key: K,
@@ -120,3 +146,79 @@ export function cleanupMessages(messages: UIMessage[]): UIMessage[] {
     return !hasIncompleteToolCall;
   });
 }
+
+/**
+ * Model input for a tool result, with the images it carries as image parts:
+ * the screenshots it stored (if taken by `owner`), and MCP image content
+ */
+async function toolResultWithImages(
+  output: unknown,
+  bucket: R2Bucket,
+  owner: string
+): Promise<ToolModelOutput> {
+  if (typeof output === "string") return { type: "text", value: output };
+
+  if (isScreenshotToolResult(output)) {
+    const images = await loadScreenshots(bucket, output.screenshots, owner);
+    return {
+      type: "content",
+      value: [
+        ...output.content.map((part) => ({
+          type: "text" as const,
+          text: part.text
+        })),
+        ...images.map((data) => ({
+          type: "image-data" as const,
+          data,
+          mediaType: "image/jpeg"
+        }))
+      ]
+    };
+  }
+
+  if (
+    isMCPToolResult(output) &&
+    output.content.some((part) => part.type === "image")
+  ) {
+    return {
+      type: "content",
+      value: output.content.flatMap((part): ToolModelContent => {
+        if (part.type === "text" && "text" in part) {
+          return [{ type: "text", text: part.text }];
+        }
+        if (part.type === "image" && "data" in part) {
+          return [
+            { type: "image-data", data: part.data, mediaType: part.mimeType }
+          ];
+        }
+        return [];
+      })
+    };
+  }
+
+  return { type: "json", value: (output ?? null) as JSONValue };
+}
+
+/**
+ * Let the model see the images tool results carry, rather than just the text
+ * pointing at them. Only screenshots `owner` took are attached. Tools that
+ * convert their own results are left alone.
+ */
+export function withToolResultImages<Tools extends ToolSet>(
+  tools: Tools,
+  bucket: R2Bucket,
+  owner: string
+): Tools {
+  return Object.fromEntries(
+    Object.entries(tools).map(([name, tool]) => [
+      name,
+      tool.toModelOutput
+        ? tool
+        : {
+            ...tool,
+            toModelOutput: ({ output }: { output: unknown }) =>
+              toolResultWithImages(output, bucket, owner)
+          }
+    ])
+  ) as Tools;
+}